@@ -7,6 +7,9 @@ export default defineConfig({
   output: 'server',
   adapter: node({ mode: 'standalone' }),
   site: 'https://plaindoctor.com',
+  // Cross-site form POSTs are refused in src/middleware.ts instead, which leaves the
+  // public APIs (/api/v1, /api/fhir) open to scripts that send no Origin header
+  security: { checkOrigin: false },
   build: {
     inlineStylesheets: 'auto',
   },
@@ -1,16 +1,33 @@
 #!/usr/bin/env node
 // Build PlainDoctor SQLite database from NPPES CSV + NUCC taxonomy
-// Usage: node scripts/build-db.mjs
+// Usage: node scripts/build-db.mjs            (full rebuild from the monthly file)
+//        node scripts/build-db.mjs --delta    (apply weekly files to the existing DB)
 // Input: /storage/plaindoctor/raw/npidata_*.csv, /storage/plaindoctor/raw/nucc_taxonomy.csv
+//        /storage/plaindoctor/raw/zcta_gazetteer.txt (optional, Census ZCTA Gazetteer for radius search)
+//        /storage/plaindoctor/raw/county_population.csv + zip_county.csv (optional, Census county
+//        population estimates and HUD ZIP-County crosswalk for county pages)
+// Delta input: /storage/plaindoctor/raw/weekly/npidata_pfile_*.csv (NPPES weekly incremental files)
+//              /storage/plaindoctor/raw/weekly/deactivated_*.csv (NPPES Deactivated NPI Report, saved as CSV)
 // Output: /storage/plaindoctor/plaindoctor.db
+// A full rebuild diffs against the database it replaces and carries provider_history forward.
+// It does not carry over the tables the standalone loaders write. After a full rebuild, run
+// optimize-db.sh, then import-leie, import-part-d-drugs, build-prescriber-percentiles,
+// import-part-b-services, import-open-payments, import-hospitals, import-hpsa and the
+// import-nursing-home-* loaders (each header lists its inputs and prerequisites); pages
+// leave out a section until its loader has run.
 
 import Database from 'better-sqlite3';
-import { createReadStream, existsSync, readdirSync, readFileSync, unlinkSync, statSync } from 'fs';
+import { createReadStream, existsSync, readdirSync, readFileSync, renameSync, unlinkSync, statSync } from 'fs';
 import { createInterface } from 'readline';
-import { join } from 'path';
+import { spawnSync } from 'child_process';
+import { join, dirname, basename } from 'path';
+import { fileURLToPath } from 'url';
 
 const RAW_DIR = '/storage/plaindoctor/raw';
+const WEEKLY_DIR = join(RAW_DIR, 'weekly');
 const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+const PREV_DB_PATH = `${DB_PATH}.prev`;
+const DELTA_MODE = process.argv.includes('--delta');
 
 // --- Slug helper ---
 function slugify(str) {
@@ -18,7 +35,8 @@ function slugify(str) {
 }
 
 // --- Load NUCC taxonomy ---
-function loadTaxonomy() {
+// Individuals are listed under "Individual" codes only; organizations under any
+function loadTaxonomy(sections = ['Individual']) {
   const taxPath = join(RAW_DIR, 'nucc_taxonomy.csv');
   if (!existsSync(taxPath)) {
     console.error('NUCC taxonomy file not found:', taxPath);
@@ -38,7 +56,7 @@ function loadTaxonomy() {
     const displayName = fields[6]?.trim() || '';
     const section = fields[7]?.trim() || '';
 
-    if (code && section === 'Individual') {
+    if (code && sections.includes(section)) {
       const name = specialization
         ? `${classification} - ${specialization}`
         : classification;
@@ -48,7 +66,7 @@ function loadTaxonomy() {
       });
     }
   }
-  console.log(`Loaded ${taxonomy.size} individual taxonomy codes`);
+  console.log(`Loaded ${taxonomy.size} taxonomy codes (${sections.join(', ')})`);
   return taxonomy;
 }
 
@@ -91,6 +109,347 @@ function findNppesFile() {
   return join(RAW_DIR, sorted[0]);
 }
 
+// --- NPPES rows ---
+function indexHeaders(line) {
+  const headerIndices = {};
+  const headers = parseCSVLine(line);
+  for (let i = 0; i < headers.length; i++) {
+    const h = headers[i].trim().replace(/"/g, '');
+    headerIndices[h] = i;
+  }
+  console.log(`Found ${headers.length} columns`);
+  const needed = ['NPI', 'Entity Type Code', 'Provider First Name', 'Provider Last Name (Legal Name)'];
+  for (const n of needed) {
+    if (!(n in headerIndices)) {
+      console.error(`Missing column: ${n}`);
+      process.exit(1);
+    }
+  }
+  return headerIndices;
+}
+
+const TAXONOMY_SLOTS = 15;
+
+// Parses one NPPES row and dispatches on entity type. Returns null for rows of
+// another entity type, { npi, provider: null } / { npi, organization: null } for
+// NPIs we don't list (deactivated, non-US, unknown taxonomy, missing name), else
+// the listing row (without a slug) plus every filled taxonomy slot.
+function parseNppesRow(line, headerIndices, taxonomy, orgTaxonomy) {
+  const fields = parseCSVLine(line);
+  const get = (col) => (fields[headerIndices[col]] || '').trim().replace(/"/g, '');
+  const type = get('Entity Type Code');
+  if (type === '1') return parseProviderRow(get, taxonomy);
+  if (type === '2') return parseOrganizationRow(get, orgTaxonomy);
+  return null;
+}
+
+// Active NPI with a US practice address; shared by individuals and organizations
+function parseListedLocation(get) {
+  const deactivDate = get('NPI Deactivation Date');
+  const reactivDate = get('NPI Reactivation Date');
+  if (deactivDate && !reactivDate) return null;
+
+  const state = get('Provider Business Practice Location Address State Name');
+  if (!VALID_STATES.has(state)) return null;
+
+  const city = get('Provider Business Practice Location Address City Name');
+  if (!city) return null;
+
+  return {
+    city, state,
+    zip: (get('Provider Business Practice Location Address Postal Code') || '').slice(0, 5),
+    phone: get('Provider Business Practice Location Address Telephone Number') || null,
+    address_line1: get('Provider First Line Business Practice Location Address') || null,
+    enumeration_date: get('Provider Enumeration Date') || null,
+    last_updated: get('Last Update Date') || null,
+  };
+}
+
+// Every filled taxonomy slot is kept; the listed one is the slot flagged
+// primary, falling back to slot 1 when none is flagged or known
+function parseTaxonomySlots(get, taxonomy) {
+  const taxonomies = [];
+  for (let slot = 1; slot <= TAXONOMY_SLOTS; slot++) {
+    const code = get(`Healthcare Provider Taxonomy Code_${slot}`);
+    if (!code) continue;
+    taxonomies.push({
+      slot,
+      taxonomy_code: code,
+      is_primary: get(`Healthcare Provider Primary Taxonomy Switch_${slot}`) === 'Y' ? 1 : 0,
+      license_state: get(`Provider License Number State Code_${slot}`) || null,
+    });
+  }
+  const primary = taxonomies.find(t => t.is_primary && taxonomy.has(t.taxonomy_code))
+    ?? taxonomies.find(t => t.slot === 1);
+  return { taxonomies, primaryCode: primary?.taxonomy_code };
+}
+
+function parseProviderRow(get, taxonomy) {
+  const npi = get('NPI');
+  const unlisted = { npi, provider: null };
+
+  const location = parseListedLocation(get);
+  if (!location) return unlisted;
+
+  const { taxonomies, primaryCode: taxCode } = parseTaxonomySlots(get, taxonomy);
+  const taxInfo = taxonomy.get(taxCode);
+  if (!taxInfo) return unlisted;
+
+  const firstName = get('Provider First Name');
+  const lastName = get('Provider Last Name (Legal Name)');
+  if (!npi || !firstName || !lastName) return unlisted;
+
+  return {
+    npi,
+    provider: {
+      npi, first_name: firstName, last_name: lastName,
+      credential: get('Provider Credential Text') || null,
+      gender: get('Provider Sex Code') || null,
+      specialty: taxInfo.name, specialty_code: taxCode,
+      ...location,
+    },
+    taxonomies,
+  };
+}
+
+// Organizations (clinics, group practices, pharmacies, labs...) may carry any
+// NUCC code, so they are matched against the full taxonomy. The authorized
+// official is copied exactly as NPPES publishes it.
+function parseOrganizationRow(get, orgTaxonomy) {
+  const npi = get('NPI');
+  const unlisted = { npi, organization: null };
+
+  const location = parseListedLocation(get);
+  if (!location) return unlisted;
+
+  const { taxonomies, primaryCode: taxCode } = parseTaxonomySlots(get, orgTaxonomy);
+  const taxInfo = orgTaxonomy.get(taxCode);
+  if (!taxInfo) return unlisted;
+
+  const name = get('Provider Organization Name (Legal Business Name)');
+  if (!npi || !name) return unlisted;
+
+  return {
+    npi,
+    organization: {
+      npi, name,
+      other_name: get('Provider Other Organization Name') || null,
+      taxonomy: taxInfo.name, taxonomy_code: taxCode,
+      ...location,
+      is_subpart: get('Is Organization Subpart') === 'Y' ? 1 : 0,
+      parent_name: get('Parent Organization LBN') || null,
+      official_prefix: get('Authorized Official Name Prefix Text') || null,
+      official_first_name: get('Authorized Official First Name') || null,
+      official_middle_name: get('Authorized Official Middle Name') || null,
+      official_last_name: get('Authorized Official Last Name') || null,
+      official_suffix: get('Authorized Official Name Suffix Text') || null,
+      official_credential: get('Authorized Official Credential Text') || null,
+      official_title: get('Authorized Official Title or Position') || null,
+      official_phone: get('Authorized Official Telephone Number') || null,
+    },
+    taxonomies,
+  };
+}
+
+// --- Provider taxonomies (all 15 NPPES slots) ---
+const PROVIDER_TAXONOMIES_SQL = `CREATE TABLE IF NOT EXISTS provider_taxonomies (
+  npi TEXT NOT NULL,
+  slot INTEGER NOT NULL,
+  taxonomy_code TEXT NOT NULL,
+  is_primary INTEGER NOT NULL DEFAULT 0,
+  license_state TEXT,
+  PRIMARY KEY (npi, slot)
+)`;
+
+const SPECIALTY_STATE_ALL_SQL = `CREATE TABLE IF NOT EXISTS specialty_state_all (
+  specialty_code TEXT NOT NULL,
+  state TEXT NOT NULL,
+  provider_count INTEGER DEFAULT 0,
+  PRIMARY KEY (specialty_code, state)
+)`;
+
+// Materialized 'all taxonomies' listing: one row per provider per specialty they list in
+// any slot, carrying the practice state and sort columns so a specialty+state page seeks
+// idx_specialty_listing_all_sort the way the primary listing seeks the providers index.
+// Rebuilt with the aggregates on every full and delta run.
+const SPECIALTY_LISTING_ALL_SQL = `CREATE TABLE specialty_listing_all (
+  specialty_code TEXT NOT NULL,
+  state TEXT NOT NULL,
+  last_name TEXT,
+  first_name TEXT,
+  npi TEXT NOT NULL
+)`;
+
+const INSERT_TAXONOMY_SQL = 'INSERT INTO provider_taxonomies (npi, slot, taxonomy_code, is_primary, license_state) VALUES (?, ?, ?, ?, ?)';
+
+// --- Provider change history ---
+// One row per changed field per release. `key` decides whether a field changed
+// (specialty compares the taxonomy code, not its display name); `value` is what
+// the provider page shows.
+const PROVIDER_HISTORY_SQL = `CREATE TABLE IF NOT EXISTS provider_history (
+  npi TEXT NOT NULL,
+  release_date TEXT NOT NULL,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT
+)`;
+
+const HISTORY_FIELDS = [
+  { field: 'address', value: t => `COALESCE(${t}.address_line1 || ', ', '') || ${t}.city || ', ' || ${t}.state || ' ' || ${t}.zip` },
+  { field: 'phone', value: t => `${t}.phone` },
+  { field: 'specialty', key: t => `${t}.specialty_code`, value: t => `${t}.specialty` },
+  { field: 'credential', value: t => `${t}.credential` },
+];
+const historyKey = (f, t) => (f.key ?? f.value)(t);
+
+// Release date from the NPPES file name: npidata_pfile_20050523-20260209.csv → 2026-02-09
+function releaseDate(file) {
+  const m = basename(file).match(/-(\d{4})(\d{2})(\d{2})\.csv$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : new Date().toISOString().slice(0, 10);
+}
+
+// Full rebuild: carry forward the previous database's history and append
+// whatever changed between it and the freshly loaded providers
+function recordHistoryFromPrevious(db, prevPath, release) {
+  db.prepare('ATTACH DATABASE ? AS prev').run(prevPath);
+  const prevHistory = db.prepare("SELECT 1 FROM prev.sqlite_master WHERE type = 'table' AND name = 'provider_history'").get();
+  if (prevHistory) {
+    db.prepare('INSERT INTO provider_history SELECT npi, release_date, field, old_value, new_value FROM prev.provider_history').run();
+  }
+  let total = 0;
+  for (const f of HISTORY_FIELDS) {
+    const { changes } = db.prepare(`
+      INSERT INTO provider_history (npi, release_date, field, old_value, new_value)
+      SELECT n.npi, ?, ?, ${f.value('o')}, ${f.value('n')}
+      FROM providers n
+      JOIN prev.providers o ON o.npi = n.npi
+      WHERE ${historyKey(f, 'o')} IS NOT ${historyKey(f, 'n')}
+    `).run(release, f.field);
+    console.log(`  ${f.field}: ${changes.toLocaleString()} changes`);
+    total += changes;
+  }
+  db.prepare('DETACH DATABASE prev').run();
+  return total;
+}
+
+// --- Load ZIP centroids (Census ZCTA Gazetteer) ---
+// Tab-separated: GEOID, ALAND, AWATER, ALAND_SQMI, AWATER_SQMI, INTPTLAT, INTPTLONG.
+// ZCTAs approximate USPS ZIPs closely enough for "within N miles" searches.
+function loadZipCentroids(db) {
+  const gazPath = join(RAW_DIR, 'zcta_gazetteer.txt');
+  if (!existsSync(gazPath)) {
+    console.warn('ZCTA gazetteer not found, skipping zip_centroids:', gazPath);
+    return 0;
+  }
+  const lines = readFileSync(gazPath, 'utf8').split('\n');
+  const headers = lines[0].split('\t').map(h => h.trim());
+  const iZip = headers.indexOf('GEOID');
+  const iLat = headers.indexOf('INTPTLAT');
+  const iLng = headers.indexOf('INTPTLONG');
+  if (iZip === -1 || iLat === -1 || iLng === -1) {
+    console.error('Unexpected gazetteer header:', headers);
+    process.exit(1);
+  }
+
+  const insert = db.prepare('INSERT OR REPLACE INTO zip_centroids (zip, lat, lng) VALUES (?, ?, ?)');
+  let count = 0;
+  db.transaction(() => {
+    for (let i = 1; i < lines.length; i++) {
+      const fields = lines[i].split('\t');
+      const zip = fields[iZip]?.trim();
+      const lat = parseFloat(fields[iLat]);
+      const lng = parseFloat(fields[iLng]);
+      if (!zip || zip.length !== 5 || isNaN(lat) || isNaN(lng)) continue;
+      insert.run(zip, lat, lng);
+      count++;
+    }
+  })();
+  return count;
+}
+
+// --- Load counties (Census population estimates + HUD USPS ZIP-County crosswalk) ---
+// county_population.csv is the Census co-est*-alldata.csv file (Latin-1): one
+// row per county (SUMLEV 050) with POPESTIMATE<year> columns; the latest is used.
+// zip_county.csv is the HUD crosswalk: ZIP, COUNTY (5-digit FIPS), *_RATIO.
+// A ZIP that spans counties goes to the one holding most of its business
+// addresses, since providers are listed by practice location.
+function loadCounties(db) {
+  const popPath = join(RAW_DIR, 'county_population.csv');
+  const xwalkPath = join(RAW_DIR, 'zip_county.csv');
+  if (!existsSync(popPath) || !existsSync(xwalkPath)) {
+    console.warn('County population or ZIP-county crosswalk not found, skipping counties:', popPath, xwalkPath);
+    return { counties: 0, zips: 0 };
+  }
+
+  const stateAbbr = new Map(Object.entries(STATE_NAMES).map(([abbr, name]) => [name, abbr]));
+  const popLines = readFileSync(popPath, 'latin1').split(/\r?\n/);
+  const popHeaders = parseCSVLine(popLines[0]).map(h => h.trim());
+  const iSumlev = popHeaders.indexOf('SUMLEV');
+  const iState = popHeaders.indexOf('STATE');
+  const iCounty = popHeaders.indexOf('COUNTY');
+  const iStName = popHeaders.indexOf('STNAME');
+  const iCtyName = popHeaders.indexOf('CTYNAME');
+  const popColumns = popHeaders.filter(h => /^POPESTIMATE\d{4}$/.test(h)).sort();
+  const iPop = popHeaders.indexOf(popColumns[popColumns.length - 1]);
+  if ([iSumlev, iState, iCounty, iStName, iCtyName, iPop].includes(-1)) {
+    console.error('Unexpected county population header:', popHeaders);
+    process.exit(1);
+  }
+
+  const insertCounty = db.prepare('INSERT INTO counties (fips, state, name, slug, population) VALUES (?, ?, ?, ?, ?)');
+  const slugSeen = new Set();
+  let counties = 0;
+  db.transaction(() => {
+    for (let i = 1; i < popLines.length; i++) {
+      if (!popLines[i].trim()) continue;
+      const f = parseCSVLine(popLines[i]);
+      if (f[iSumlev]?.trim() !== '050') continue;
+      const state = stateAbbr.get(f[iStName]?.trim());
+      const name = f[iCtyName]?.trim();
+      if (!state || !name) continue;
+      const fips = f[iState].trim().padStart(2, '0') + f[iCounty].trim().padStart(3, '0');
+      // "Doña Ana County" -> "dona-ana-county"
+      const baseSlug = slugify(name.normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+      let slug = baseSlug;
+      for (let suffix = 1; slugSeen.has(`${state}/${slug}`); suffix++) slug = `${baseSlug}-${suffix}`;
+      slugSeen.add(`${state}/${slug}`);
+      insertCounty.run(fips, state, name, slug, parseInt(f[iPop], 10) || null);
+      counties++;
+    }
+  })();
+
+  const xwalkLines = readFileSync(xwalkPath, 'utf8').split(/\r?\n/);
+  const xwalkHeaders = parseCSVLine(xwalkLines[0].replace(/^\uFEFF/, '')).map(h => h.trim().toUpperCase());
+  const iZip = xwalkHeaders.indexOf('ZIP');
+  const iFips = xwalkHeaders.indexOf('COUNTY');
+  const iBus = xwalkHeaders.indexOf('BUS_RATIO');
+  const iTot = xwalkHeaders.indexOf('TOT_RATIO');
+  if ([iZip, iFips, iBus, iTot].includes(-1)) {
+    console.error('Unexpected ZIP-county crosswalk header:', xwalkHeaders);
+    process.exit(1);
+  }
+  const best = new Map();
+  for (let i = 1; i < xwalkLines.length; i++) {
+    if (!xwalkLines[i].trim()) continue;
+    const f = parseCSVLine(xwalkLines[i]);
+    const zip = f[iZip]?.trim().padStart(5, '0');
+    const fips = f[iFips]?.trim().padStart(5, '0');
+    if (!zip || !fips || zip === '00000') continue;
+    const bus = parseFloat(f[iBus]) || 0;
+    const tot = parseFloat(f[iTot]) || 0;
+    const cur = best.get(zip);
+    if (!cur || bus > cur.bus || (bus === cur.bus && tot > cur.tot)) best.set(zip, { fips, bus, tot });
+  }
+
+  // Only ZIPs whose county we have a name and population for
+  const insertZip = db.prepare('INSERT INTO zip_counties (zip, fips) SELECT ?, fips FROM counties WHERE fips = ?');
+  let zips = 0;
+  db.transaction(() => {
+    for (const [zip, { fips }] of best) zips += insertZip.run(zip, fips).changes;
+  })();
+  return { counties, zips };
+}
+
 // --- State validation ---
 const VALID_STATES = new Set([
   'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
@@ -116,15 +475,664 @@ const STATE_NAMES = {
   AS: 'American Samoa', MP: 'Northern Mariana Islands',
 };
 
+// --- Aggregation tables (specialties, states, cities, specialty_state) ---
+// Built from providers. A delta run passes the slugs already published so
+// existing /specialty and /city URLs never change; new rows get fresh slugs.
+function buildAggregates(db, taxonomy, keep = { specialtySlugs: new Map(), citySlugs: new Map() }) {
+  console.log('\nBuilding specialties table...');
+  db.prepare(`
+    INSERT INTO specialties (code, name, category, slug, provider_count)
+    SELECT specialty_code, specialty, NULL, '', COUNT(*) as cnt
+    FROM providers
+    GROUP BY specialty_code
+    ORDER BY cnt DESC
+  `).run();
+
+  // Update specialty names and slugs from taxonomy
+  const updateSpecialty = db.prepare('UPDATE specialties SET name = ?, category = ?, slug = ? WHERE code = ?');
+  const specRows = db.prepare('SELECT code FROM specialties').all();
+  const updateSpecBatch = db.transaction((rows) => {
+    for (const row of rows) {
+      const info = taxonomy.get(row.code);
+      const kept = keep.specialtySlugs.get(row.code);
+      if (info) {
+        updateSpecialty.run(info.name, info.category, kept ?? slugify(info.name), row.code);
+      } else {
+        const prov = db.prepare('SELECT specialty FROM providers WHERE specialty_code = ? LIMIT 1').get(row.code);
+        if (prov) {
+          updateSpecialty.run(prov.specialty, null, kept ?? slugify(prov.specialty), row.code);
+        }
+      }
+    }
+  });
+  updateSpecBatch(specRows);
+
+  // Handle duplicate specialty slugs
+  const dupSlugs = db.prepare(`
+    SELECT slug, COUNT(*) as cnt FROM specialties GROUP BY slug HAVING cnt > 1
+  `).all();
+  for (const dup of dupSlugs) {
+    // A slug that was already published stays with its specialty
+    const specs = db.prepare('SELECT code, name FROM specialties WHERE slug = ? ORDER BY provider_count DESC').all(dup.slug)
+      .sort((a, b) => (keep.specialtySlugs.get(b.code) === dup.slug) - (keep.specialtySlugs.get(a.code) === dup.slug));
+    for (let i = 1; i < specs.length; i++) {
+      const newSlug = `${dup.slug}-${specs[i].code.slice(0, 6).toLowerCase()}`;
+      db.prepare('UPDATE specialties SET slug = ? WHERE code = ?').run(newSlug, specs[i].code);
+    }
+  }
+
+  const specCount = db.prepare('SELECT COUNT(*) as cnt FROM specialties').get();
+  console.log(`  ${specCount.cnt} specialties`);
+
+  console.log('Building states table...');
+  db.prepare(`
+    INSERT INTO states (abbr, name, slug, provider_count, specialty_count)
+    SELECT state, '', '', COUNT(*) as cnt, COUNT(DISTINCT specialty_code) as scnt
+    FROM providers
+    GROUP BY state
+    ORDER BY cnt DESC
+  `).run();
+
+  const updateState = db.prepare('UPDATE states SET name = ?, slug = ? WHERE abbr = ?');
+  const stateRows = db.prepare('SELECT abbr FROM states').all();
+  const updateStateBatch = db.transaction((rows) => {
+    for (const row of rows) {
+      const name = STATE_NAMES[row.abbr] || row.abbr;
+      updateState.run(name, slugify(name), row.abbr);
+    }
+  });
+  updateStateBatch(stateRows);
+
+  const stateCount = db.prepare('SELECT COUNT(*) as cnt FROM states').get();
+  console.log(`  ${stateCount.cnt} states`);
+
+  console.log('Building cities table...');
+  db.prepare(`
+    INSERT INTO cities (city, state, slug, provider_count)
+    SELECT city, state, '', COUNT(*) as cnt
+    FROM providers
+    GROUP BY city, state
+    HAVING cnt >= 10
+    ORDER BY cnt DESC
+  `).run();
+
+  const updateCity = db.prepare('UPDATE cities SET slug = ? WHERE id = ?');
+  const cityRows = db.prepare('SELECT id, city, state FROM cities').all();
+  const citySlugSeen = new Map([...keep.citySlugs.values()].map(slug => [slug, true]));
+  const updateCityBatch = db.transaction((rows) => {
+    for (const row of rows) {
+      const kept = keep.citySlugs.get(`${row.city}|${row.state}`);
+      if (kept) {
+        updateCity.run(kept, row.id);
+        continue;
+      }
+      let base = slugify(`${row.city}-${row.state}`);
+      let slug = base;
+      let suffix = 1;
+      while (citySlugSeen.has(slug)) {
+        slug = `${base}-${suffix}`;
+        suffix++;
+      }
+      citySlugSeen.set(slug, true);
+      updateCity.run(slug, row.id);
+    }
+  });
+  updateCityBatch(cityRows);
+
+  const cityCount = db.prepare('SELECT COUNT(*) as cnt FROM cities').get();
+  console.log(`  ${cityCount.cnt} cities (10+ providers)`);
+
+  console.log('Building specialty_state table...');
+  db.prepare(`
+    INSERT INTO specialty_state (specialty_code, state, provider_count)
+    SELECT specialty_code, state, COUNT(*) as cnt
+    FROM providers
+    GROUP BY specialty_code, state
+    ORDER BY cnt DESC
+  `).run();
+
+  const ssCount = db.prepare('SELECT COUNT(*) as cnt FROM specialty_state').get();
+  console.log(`  ${ssCount.cnt} specialty×state combinations`);
+
+  // Same listing and counts with secondary taxonomies included: a provider counts
+  // once per specialty they list in any slot, under their practice state
+  console.log('Building specialty_listing_all table (primary + secondary taxonomies)...');
+  db.prepare('DROP TABLE IF EXISTS specialty_listing_all').run();
+  db.prepare(SPECIALTY_LISTING_ALL_SQL).run();
+  db.prepare(`
+    INSERT INTO specialty_listing_all (specialty_code, state, last_name, first_name, npi)
+    SELECT t.taxonomy_code, p.state, p.last_name, p.first_name, p.npi
+    FROM (SELECT DISTINCT taxonomy_code, npi FROM provider_taxonomies
+          WHERE taxonomy_code IN (SELECT code FROM specialties)) t
+    JOIN providers p ON p.npi = t.npi
+  `).run();
+  db.prepare(
+    'CREATE INDEX idx_specialty_listing_all_sort ON specialty_listing_all(specialty_code, state, last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi)'
+  ).run();
+
+  console.log('Building specialty_state_all table...');
+  db.prepare(`
+    INSERT INTO specialty_state_all (specialty_code, state, provider_count)
+    SELECT specialty_code, state, COUNT(*) as cnt
+    FROM specialty_listing_all
+    GROUP BY specialty_code, state
+  `).run();
+  db.prepare(`
+    UPDATE specialties SET all_provider_count = COALESCE(
+      (SELECT SUM(provider_count) FROM specialty_state_all WHERE specialty_code = specialties.code), provider_count)
+  `).run();
+
+  const ssAllCount = db.prepare('SELECT COUNT(*) as cnt FROM specialty_state_all').get();
+  console.log(`  ${ssAllCount.cnt} specialty×state combinations`);
+}
+
+// --- Full-text search index ---
+const FTS_INSERT_SQL = `
+  INSERT INTO providers_fts (rowid, npi, first_name, last_name, specialty, city, zip, state, specialty_code, gender, credential)
+  SELECT CAST(p.npi AS INTEGER), p.npi, p.first_name, p.last_name,
+    p.specialty || CASE WHEN s.category IS NOT NULL AND s.category != p.specialty THEN ' ' || s.category ELSE '' END,
+    p.city, p.zip, p.state, p.specialty_code, p.gender,
+    NULLIF(REPLACE(REPLACE(UPPER(COALESCE(p.credential, '')), '.', ''), ' ', ''), '')
+  FROM providers p
+  LEFT JOIN specialties s ON s.code = p.specialty_code`;
+
+function buildProvidersFts(db) {
+  // Full-text search index (name, specialty, city, ZIP)
+  // Stores its own copy of the searchable text keyed by NPI rather than using
+  // content='providers' — VACUUM renumbers rowids on tables without an
+  // INTEGER PRIMARY KEY, which would silently break an external-content index.
+  // The specialty column also carries the NUCC classification so "internal
+  // medicine" matches its subspecialties. UNINDEXED columns hold the /search
+  // facet values so filtering and counting never join back to providers;
+  // credential is normalized ("M.D." → "MD") so facets don't fragment.
+  // The rowid is the NPI itself, so a delta run can replace single rows.
+  console.log('Building providers_fts search index...');
+  db.prepare(`
+    CREATE VIRTUAL TABLE providers_fts USING fts5(
+      npi UNINDEXED,
+      first_name,
+      last_name,
+      specialty,
+      city,
+      zip,
+      state UNINDEXED,
+      specialty_code UNINDEXED,
+      gender UNINDEXED,
+      credential UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2',
+      prefix = '2 3'
+    )
+  `).run();
+  db.prepare(FTS_INSERT_SQL).run();
+  db.prepare("INSERT INTO providers_fts (providers_fts) VALUES ('optimize')").run();
+
+  const ftsCount = db.prepare('SELECT COUNT(*) as cnt FROM providers_fts').get();
+  console.log(`  ${ftsCount.cnt.toLocaleString()} providers indexed`);
+}
+
+// --- Organizations (NPPES Entity Type 2) ---
+// Listed separately from individuals; their taxonomy slots share
+// provider_taxonomies since both are keyed by NPI.
+const ORGANIZATION_COLUMNS = [
+  'npi', 'name', 'other_name', 'taxonomy', 'taxonomy_code', 'city', 'state', 'zip', 'phone',
+  'address_line1', 'enumeration_date', 'last_updated', 'is_subpart', 'parent_name',
+  'official_prefix', 'official_first_name', 'official_middle_name', 'official_last_name',
+  'official_suffix', 'official_credential', 'official_title', 'official_phone', 'slug',
+];
+
+const ORGANIZATION_TABLES_SQL = [
+  `CREATE TABLE IF NOT EXISTS organizations (
+    npi TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    other_name TEXT,
+    taxonomy TEXT NOT NULL,
+    taxonomy_code TEXT NOT NULL,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    zip TEXT NOT NULL,
+    phone TEXT,
+    address_line1 TEXT,
+    enumeration_date TEXT,
+    last_updated TEXT,
+    is_subpart INTEGER NOT NULL DEFAULT 0,
+    parent_name TEXT,
+    official_prefix TEXT,
+    official_first_name TEXT,
+    official_middle_name TEXT,
+    official_last_name TEXT,
+    official_suffix TEXT,
+    official_credential TEXT,
+    official_title TEXT,
+    official_phone TEXT,
+    slug TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS organization_types (
+    code TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    category TEXT,
+    slug TEXT NOT NULL,
+    org_count INTEGER DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS organization_states (
+    state TEXT PRIMARY KEY,
+    org_count INTEGER DEFAULT 0,
+    type_count INTEGER DEFAULT 0
+  )`,
+  // City slugs are unique within a state: /organizations/[state]/[city]
+  `CREATE TABLE IF NOT EXISTS organization_cities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    org_count INTEGER DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS organization_type_states (
+    taxonomy_code TEXT NOT NULL,
+    state TEXT NOT NULL,
+    org_count INTEGER DEFAULT 0,
+    PRIMARY KEY (taxonomy_code, state)
+  )`,
+];
+
+const ORGANIZATION_INDEXES_SQL = [
+  'CREATE INDEX IF NOT EXISTS idx_organizations_slug ON organizations(slug)',
+  // Name-ordered listings by state, city and type+state
+  'CREATE INDEX IF NOT EXISTS idx_organizations_state_name ON organizations(state, name COLLATE NOCASE)',
+  'CREATE INDEX IF NOT EXISTS idx_organizations_city_state_name ON organizations(city, state, name COLLATE NOCASE)',
+  'CREATE INDEX IF NOT EXISTS idx_organizations_type_state_name ON organizations(taxonomy_code, state, name COLLATE NOCASE)',
+  'CREATE INDEX IF NOT EXISTS idx_organization_types_slug ON organization_types(slug)',
+  'CREATE INDEX IF NOT EXISTS idx_organization_cities_state_slug ON organization_cities(state, slug)',
+];
+
+const ORGANIZATION_AGGREGATE_TABLES = ['organization_types', 'organization_states', 'organization_cities', 'organization_type_states'];
+
+// Same slug-keeping rules as buildAggregates: a delta run passes the type and
+// city slugs already published
+function buildOrganizationAggregates(db, orgTaxonomy, keep = { typeSlugs: new Map(), citySlugs: new Map() }) {
+  console.log('\nBuilding organization_types table...');
+  const types = db.prepare(`
+    SELECT taxonomy_code AS code, MAX(taxonomy) AS name, COUNT(*) AS cnt
+    FROM organizations
+    GROUP BY taxonomy_code
+    ORDER BY cnt DESC
+  `).all();
+  const insertType = db.prepare('INSERT INTO organization_types (code, name, category, slug, org_count) VALUES (?, ?, ?, ?, ?)');
+  const typeSlugSeen = new Set(keep.typeSlugs.values());
+  db.transaction(() => {
+    for (const t of types) {
+      const info = orgTaxonomy.get(t.code);
+      const name = info?.name ?? t.name;
+      let slug = keep.typeSlugs.get(t.code);
+      if (!slug) {
+        slug = slugify(name);
+        if (typeSlugSeen.has(slug)) slug = `${slug}-${t.code.toLowerCase()}`;
+        typeSlugSeen.add(slug);
+      }
+      insertType.run(t.code, name, info?.category ?? null, slug, t.cnt);
+    }
+  })();
+  console.log(`  ${types.length} organization types`);
+
+  console.log('Building organization_states table...');
+  db.prepare(`
+    INSERT INTO organization_states (state, org_count, type_count)
+    SELECT state, COUNT(*), COUNT(DISTINCT taxonomy_code)
+    FROM organizations
+    GROUP BY state
+  `).run();
+
+  console.log('Building organization_cities table...');
+  db.prepare(`
+    INSERT INTO organization_cities (city, state, slug, org_count)
+    SELECT city, state, '', COUNT(*) as cnt
+    FROM organizations
+    GROUP BY city, state
+    ORDER BY cnt DESC
+  `).run();
+  const updateCity = db.prepare('UPDATE organization_cities SET slug = ? WHERE id = ?');
+  const cityRows = db.prepare('SELECT id, city, state FROM organization_cities').all();
+  const citySlugSeen = new Set([...keep.citySlugs].map(([key, slug]) => `${key.split('|')[1]}|${slug}`));
+  db.transaction(() => {
+    for (const row of cityRows) {
+      let slug = keep.citySlugs.get(`${row.city}|${row.state}`);
+      if (!slug) {
+        const base = slugify(row.city);
+        slug = base;
+        for (let suffix = 1; citySlugSeen.has(`${row.state}|${slug}`); suffix++) slug = `${base}-${suffix}`;
+        citySlugSeen.add(`${row.state}|${slug}`);
+      }
+      updateCity.run(slug, row.id);
+    }
+  })();
+  console.log(`  ${cityRows.length} cities`);
+
+  console.log('Building organization_type_states table...');
+  db.prepare(`
+    INSERT INTO organization_type_states (taxonomy_code, state, org_count)
+    SELECT taxonomy_code, state, COUNT(*)
+    FROM organizations
+    GROUP BY taxonomy_code, state
+  `).run();
+}
+
+// Keyed by NPI like providers_fts; the taxonomy column carries the NUCC
+// classification so "pharmacy" matches every pharmacy subtype
+const ORG_FTS_INSERT_SQL = `
+  INSERT INTO organizations_fts (rowid, npi, name, other_name, taxonomy, city, zip, state)
+  SELECT CAST(o.npi AS INTEGER), o.npi, o.name, o.other_name,
+    o.taxonomy || CASE WHEN t.category IS NOT NULL AND t.category != o.taxonomy THEN ' ' || t.category ELSE '' END,
+    o.city, o.zip, o.state
+  FROM organizations o
+  LEFT JOIN organization_types t ON t.code = o.taxonomy_code`;
+
+function buildOrganizationsFts(db) {
+  console.log('Building organizations_fts search index...');
+  db.prepare(`
+    CREATE VIRTUAL TABLE organizations_fts USING fts5(
+      npi UNINDEXED,
+      name,
+      other_name,
+      taxonomy,
+      city,
+      zip,
+      state UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2',
+      prefix = '2 3'
+    )
+  `).run();
+  db.prepare(ORG_FTS_INSERT_SQL).run();
+  db.prepare("INSERT INTO organizations_fts (organizations_fts) VALUES ('optimize')").run();
+
+  const ftsCount = db.prepare('SELECT COUNT(*) as cnt FROM organizations_fts').get();
+  console.log(`  ${ftsCount.cnt.toLocaleString()} organizations indexed`);
+}
+
+function writeStats(db) {
+  // Create _stats table with pre-computed aggregate values
+  // This avoids expensive COUNT(*) on the 7M-row providers table at runtime
+  console.log('\nPopulating _stats table...');
+  db.prepare('CREATE TABLE IF NOT EXISTS _stats (key TEXT PRIMARY KEY, value TEXT)').run();
+  const statsQueries = [
+    ["provider_count", "SELECT COUNT(*) FROM providers"],
+    ["specialty_count", "SELECT COUNT(*) FROM specialties"],
+    ["state_count", "SELECT COUNT(*) FROM states"],
+    ["city_count", "SELECT COUNT(*) FROM cities"],
+    ["organization_count", "SELECT COUNT(*) FROM organizations"],
+  ];
+  const insertStat = db.prepare('INSERT OR REPLACE INTO _stats (key, value) VALUES (?, ?)');
+  for (const [key, query] of statsQueries) {
+    const row = db.prepare(query).get();
+    const val = Object.values(row)[0];
+    insertStat.run(key, String(val));
+    console.log(`  ${key} = ${val}`);
+  }
+}
+
+// --- Weekly delta ---
+// Applies NPPES weekly incremental files (each a full row for every NPI that
+// changed that week) and deactivation reports to an existing database, then
+// rebuilds everything derived from providers. Published slugs are never
+// changed; each file is recorded in etl_deltas so re-running is a no-op.
+async function applyDelta(taxonomy, orgTaxonomy) {
+  if (!existsSync(DB_PATH)) {
+    console.error(`No database at ${DB_PATH} — run a full build first`);
+    process.exit(1);
+  }
+  if (!existsSync(WEEKLY_DIR)) {
+    console.error(`No weekly files directory at ${WEEKLY_DIR}`);
+    process.exit(1);
+  }
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+  db.prepare(PROVIDER_HISTORY_SQL).run();
+  db.prepare('CREATE INDEX IF NOT EXISTS idx_provider_history_npi ON provider_history(npi, release_date)').run();
+  if (!db.prepare("SELECT 1 FROM pragma_table_info('providers') WHERE name = 'last_updated'").get()) {
+    db.prepare('ALTER TABLE providers ADD COLUMN last_updated TEXT').run();
+  }
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'provider_taxonomies'").get()) {
+    console.warn('provider_taxonomies is missing; secondary taxonomies cover only updated providers until the next full build');
+    db.prepare(PROVIDER_TAXONOMIES_SQL).run();
+    db.prepare(SPECIALTY_STATE_ALL_SQL).run();
+    db.prepare('ALTER TABLE specialties ADD COLUMN all_provider_count INTEGER DEFAULT 0').run();
+  }
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'organizations'").get()) {
+    console.warn('organizations is missing; only organizations updated this week are listed until the next full build');
+    for (const sql of [...ORGANIZATION_TABLES_SQL, ...ORGANIZATION_INDEXES_SQL]) db.prepare(sql).run();
+  }
+  db.prepare(`CREATE TABLE IF NOT EXISTS etl_deltas (
+    file TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL,
+    upserted INTEGER DEFAULT 0,
+    deleted INTEGER DEFAULT 0
+  )`).run();
+
+  const applied = new Set(db.prepare('SELECT file FROM etl_deltas').all().map(r => r.file));
+  // NPPES file names carry the week's dates, so name order is release order
+  const weekly = readdirSync(WEEKLY_DIR).filter(f => f.endsWith('.csv') && !applied.has(f)).sort();
+  const updates = weekly.filter(f => f.startsWith('npidata_pfile_') && !f.includes('fileheader'));
+  const deactivations = weekly.filter(f => f.startsWith('deactivated_'));
+  if (updates.length + deactivations.length === 0) {
+    console.log('No new weekly files; database is up to date');
+    db.close();
+    return;
+  }
+
+  // Every column except slug is refreshed, so existing provider URLs stay put
+  const upsertProvider = db.prepare(`
+    INSERT INTO providers (npi, first_name, last_name, credential, gender, specialty, specialty_code, city, state, zip, phone, address_line1, enumeration_date, last_updated, slug)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(npi) DO UPDATE SET
+      first_name = excluded.first_name, last_name = excluded.last_name, credential = excluded.credential,
+      gender = excluded.gender, specialty = excluded.specialty, specialty_code = excluded.specialty_code,
+      city = excluded.city, state = excluded.state, zip = excluded.zip, phone = excluded.phone,
+      address_line1 = excluded.address_line1, enumeration_date = excluded.enumeration_date,
+      last_updated = excluded.last_updated
+  `);
+  const historyValues = db.prepare(`SELECT ${HISTORY_FIELDS.map(f =>
+    `${historyKey(f, 'p')} AS "${f.field}:key", ${f.value('p')} AS "${f.field}"`).join(', ')} FROM providers p WHERE npi = ?`);
+  const insertHistory = db.prepare('INSERT INTO provider_history (npi, release_date, field, old_value, new_value) VALUES (?, ?, ?, ?, ?)');
+  const existingSlug = db.prepare('SELECT slug FROM providers WHERE npi = ?');
+  const slugTaken = db.prepare('SELECT 1 FROM providers WHERE slug = ?');
+  const deleteProvider = db.prepare('DELETE FROM providers WHERE npi = ?');
+  const deleteTaxonomies = db.prepare('DELETE FROM provider_taxonomies WHERE npi = ?');
+  const insertTaxonomy = db.prepare(INSERT_TAXONOMY_SQL);
+  const upsertOrganization = db.prepare(`
+    INSERT INTO organizations (${ORGANIZATION_COLUMNS.join(', ')})
+    VALUES (${ORGANIZATION_COLUMNS.map(() => '?').join(', ')})
+    ON CONFLICT(npi) DO UPDATE SET
+      ${ORGANIZATION_COLUMNS.filter(c => c !== 'npi' && c !== 'slug').map(c => `${c} = excluded.${c}`).join(', ')}
+  `);
+  const existingOrgSlug = db.prepare('SELECT slug FROM organizations WHERE npi = ?');
+  const orgSlugTaken = db.prepare('SELECT 1 FROM organizations WHERE slug = ?');
+  const deleteOrganization = db.prepare('DELETE FROM organizations WHERE npi = ?');
+  const recordFile = db.prepare('INSERT INTO etl_deltas (file, applied_at, upserted, deleted) VALUES (?, ?, ?, ?)');
+
+  const changed = new Set();
+  const removed = new Set();
+  const changedOrgs = new Set();
+  const removedOrgs = new Set();
+
+  const applyBatch = db.transaction((rows, release) => {
+    let upserted = 0, deleted = 0;
+    for (const { npi, provider: p, organization: o, taxonomies } of rows) {
+      deleteTaxonomies.run(npi);
+      // An NPI is listed as at most one entity type; a row for either type
+      // (or a deactivation) removes any listing of the other
+      if (!p) {
+        const { changes } = deleteProvider.run(npi);
+        if (changes) {
+          deleted += changes;
+          removed.add(npi);
+          changed.delete(npi);
+        }
+      }
+      if (!o) {
+        const { changes } = deleteOrganization.run(npi);
+        if (changes) {
+          deleted += changes;
+          removedOrgs.add(npi);
+          changedOrgs.delete(npi);
+        }
+      }
+      if (o) {
+        let slug = existingOrgSlug.get(npi)?.slug;
+        if (!slug) {
+          const baseSlug = slugify(`${o.name}-${npi.slice(-4)}`);
+          slug = baseSlug;
+          for (let suffix = 1; orgSlugTaken.get(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+        }
+        upsertOrganization.run(...ORGANIZATION_COLUMNS.map(c => c === 'slug' ? slug : o[c]));
+        for (const t of taxonomies) insertTaxonomy.run(npi, t.slot, t.taxonomy_code, t.is_primary, t.license_state);
+        upserted++;
+        changedOrgs.add(npi);
+        removedOrgs.delete(npi);
+        continue;
+      }
+      if (!p) continue;
+      const before = historyValues.get(npi);
+      let slug = before && existingSlug.get(npi).slug;
+      if (!slug) {
+        const baseSlug = slugify(`${p.first_name}-${p.last_name}-${npi.slice(-4)}`);
+        slug = baseSlug;
+        for (let suffix = 1; slugTaken.get(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+      }
+      upsertProvider.run(p.npi, p.first_name, p.last_name, p.credential, p.gender,
+        p.specialty, p.specialty_code, p.city, p.state, p.zip, p.phone,
+        p.address_line1, p.enumeration_date, p.last_updated, slug);
+      for (const t of taxonomies) insertTaxonomy.run(npi, t.slot, t.taxonomy_code, t.is_primary, t.license_state);
+      if (before) {
+        const after = historyValues.get(npi);
+        for (const { field } of HISTORY_FIELDS) {
+          if (before[`${field}:key`] !== after[`${field}:key`]) {
+            insertHistory.run(npi, release, field, before[field], after[field]);
+          }
+        }
+      }
+      upserted++;
+      changed.add(npi);
+      removed.delete(npi);
+    }
+    return { upserted, deleted };
+  });
+
+  for (const file of updates) {
+    console.log('Applying:', file);
+    const rl = createInterface({
+      input: createReadStream(join(WEEKLY_DIR, file), { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+    let headerIndices = null;
+    let batch = [];
+    let upserted = 0, deleted = 0;
+    const release = releaseDate(file);
+    const flush = () => {
+      const r = applyBatch(batch, release);
+      upserted += r.upserted;
+      deleted += r.deleted;
+      batch = [];
+    };
+    for await (const line of rl) {
+      if (!headerIndices) { headerIndices = indexHeaders(line); continue; }
+      const row = parseNppesRow(line, headerIndices, taxonomy, orgTaxonomy);
+      if (!row?.npi) continue;
+      batch.push(row);
+      if (batch.length >= 5000) flush();
+    }
+    flush();
+    recordFile.run(file, new Date().toISOString(), upserted, deleted);
+    console.log(`  ${upserted.toLocaleString()} upserted, ${deleted.toLocaleString()} removed`);
+  }
+
+  // The deactivation report lists one NPI per row in its first column
+  for (const file of deactivations) {
+    console.log('Applying:', file);
+    const npis = readFileSync(join(WEEKLY_DIR, file), 'utf8').split(/\r?\n/)
+      .map(line => (parseCSVLine(line)[0] || '').trim().replace(/"/g, ''))
+      .filter(npi => /^\d{10}$/.test(npi));
+    const { deleted } = applyBatch(npis.map(npi => ({ npi, provider: null, organization: null })), releaseDate(file));
+    recordFile.run(file, new Date().toISOString(), 0, deleted);
+    console.log(`  ${npis.length.toLocaleString()} deactivated NPIs, ${deleted.toLocaleString()} removed`);
+  }
+
+  // Aggregates first: the FTS rows take their category from specialties
+  console.log('\nRebuilding aggregation tables...');
+  const keep = {
+    specialtySlugs: new Map(db.prepare('SELECT code, slug FROM specialties').all().map(r => [r.code, r.slug])),
+    citySlugs: new Map(db.prepare('SELECT city, state, slug FROM cities').all().map(r => [`${r.city}|${r.state}`, r.slug])),
+  };
+  db.transaction(() => {
+    for (const table of ['specialties', 'states', 'cities', 'specialty_state', 'specialty_state_all']) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+  })();
+  buildAggregates(db, taxonomy, keep);
+  const orgKeep = {
+    typeSlugs: new Map(db.prepare('SELECT code, slug FROM organization_types').all().map(r => [r.code, r.slug])),
+    citySlugs: new Map(db.prepare('SELECT city, state, slug FROM organization_cities').all().map(r => [`${r.city}|${r.state}`, r.slug])),
+  };
+  db.transaction(() => {
+    for (const table of ORGANIZATION_AGGREGATE_TABLES) db.prepare(`DELETE FROM ${table}`).run();
+  })();
+  buildOrganizationAggregates(db, orgTaxonomy, orgKeep);
+
+  // Databases built before the FTS rowid was the NPI can't be patched row by row
+  const ftsKeyed = db.prepare('SELECT rowid = CAST(npi AS INTEGER) AS ok FROM providers_fts LIMIT 1').get()?.ok !== 0;
+  if (ftsKeyed) {
+    console.log(`Updating providers_fts (${changed.size.toLocaleString()} changed, ${removed.size.toLocaleString()} removed)...`);
+    const deleteFts = db.prepare('DELETE FROM providers_fts WHERE rowid = ?');
+    const insertFts = db.prepare(`${FTS_INSERT_SQL} WHERE p.npi = ?`);
+    db.transaction(() => {
+      for (const npi of [...changed, ...removed]) deleteFts.run(Number(npi));
+      for (const npi of changed) insertFts.run(npi);
+    })();
+  } else {
+    db.prepare('DROP TABLE providers_fts').run();
+    buildProvidersFts(db);
+  }
+  if (db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'organizations_fts'").get()) {
+    console.log(`Updating organizations_fts (${changedOrgs.size.toLocaleString()} changed, ${removedOrgs.size.toLocaleString()} removed)...`);
+    const deleteFts = db.prepare('DELETE FROM organizations_fts WHERE rowid = ?');
+    const insertFts = db.prepare(`${ORG_FTS_INSERT_SQL} WHERE o.npi = ?`);
+    db.transaction(() => {
+      for (const npi of [...changedOrgs, ...removedOrgs]) deleteFts.run(Number(npi));
+      for (const npi of changedOrgs) insertFts.run(npi);
+    })();
+  } else {
+    buildOrganizationsFts(db);
+  }
+
+  writeStats(db);
+  db.pragma('journal_mode = DELETE');
+  db.close();
+
+  // sitemap_pages, specialty_top_cities, city_top_specialties etc. are derived
+  // from the tables above; optimize-db.sh rebuilds them and runs ANALYZE + VACUUM
+  const optimize = join(dirname(fileURLToPath(import.meta.url)), 'optimize-db.sh');
+  const result = spawnSync('bash', [optimize, DB_PATH], { stdio: 'inherit' });
+  if (result.status !== 0) {
+    console.error('optimize-db.sh failed');
+    process.exit(1);
+  }
+
+  console.log('\nDelta applied. Re-run scripts/export-precomputed.mjs and redeploy.');
+}
+
 async function main() {
   const taxonomy = loadTaxonomy();
+  const orgTaxonomy = loadTaxonomy(['Individual', 'Non-Individual']);
+  if (DELTA_MODE) return applyDelta(taxonomy, orgTaxonomy);
+
   const nppesFile = findNppesFile();
   console.log('Processing:', nppesFile);
 
-  // Delete existing DB
+  // Keep the existing DB to diff against. A .prev left by an interrupted
+  // build is the last complete release, so the partial DB is dropped instead.
   if (existsSync(DB_PATH)) {
-    unlinkSync(DB_PATH);
-    console.log('Deleted existing database');
+    if (existsSync(PREV_DB_PATH)) unlinkSync(DB_PATH);
+    else renameSync(DB_PATH, PREV_DB_PATH);
+    console.log('Moved existing database aside for change history');
   }
 
   const db = new Database(DB_PATH);
@@ -147,14 +1155,17 @@ async function main() {
       phone TEXT,
       address_line1 TEXT,
       enumeration_date TEXT,
+      last_updated TEXT,
       slug TEXT NOT NULL
     )`,
+    PROVIDER_TAXONOMIES_SQL,
     `CREATE TABLE specialties (
       code TEXT PRIMARY KEY,
       name TEXT NOT NULL,
       category TEXT,
       slug TEXT NOT NULL,
-      provider_count INTEGER DEFAULT 0
+      provider_count INTEGER DEFAULT 0,
+      all_provider_count INTEGER DEFAULT 0
     )`,
     `CREATE TABLE states (
       abbr TEXT PRIMARY KEY,
@@ -176,6 +1187,27 @@ async function main() {
       provider_count INTEGER DEFAULT 0,
       PRIMARY KEY (specialty_code, state)
     )`,
+    SPECIALTY_STATE_ALL_SQL,
+    PROVIDER_HISTORY_SQL,
+    ...ORGANIZATION_TABLES_SQL,
+    `CREATE TABLE zip_centroids (
+      zip TEXT PRIMARY KEY,
+      lat REAL NOT NULL,
+      lng REAL NOT NULL
+    )`,
+    // provider_count is filled by optimize-db.sh along with county_specialties
+    `CREATE TABLE counties (
+      fips TEXT PRIMARY KEY,
+      state TEXT NOT NULL,
+      name TEXT NOT NULL,
+      slug TEXT NOT NULL,
+      population INTEGER,
+      provider_count INTEGER DEFAULT 0
+    )`,
+    `CREATE TABLE zip_counties (
+      zip TEXT PRIMARY KEY,
+      fips TEXT NOT NULL
+    )`,
   ];
 
   for (const sql of createStatements) {
@@ -184,8 +1216,8 @@ async function main() {
 
   // Prepare insert statement
   const insertProvider = db.prepare(`
-    INSERT OR IGNORE INTO providers (npi, first_name, last_name, credential, gender, specialty, specialty_code, city, state, zip, phone, address_line1, enumeration_date, slug)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT OR IGNORE INTO providers (npi, first_name, last_name, credential, gender, specialty, specialty_code, city, state, zip, phone, address_line1, enumeration_date, last_updated, slug)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   // Read CSV line by line
@@ -202,11 +1234,33 @@ async function main() {
   const BATCH_SIZE = 5000;
   const slugSeen = new Map();
 
+  const insertTaxonomy = db.prepare(INSERT_TAXONOMY_SQL);
+
+  const insertOrganization = db.prepare(`
+    INSERT OR IGNORE INTO organizations (${ORGANIZATION_COLUMNS.join(', ')})
+    VALUES (${ORGANIZATION_COLUMNS.map(() => '?').join(', ')})
+  `);
+  let orgInserted = 0;
+  let batchOrganizations = [];
+  const orgSlugSeen = new Map();
+
+  const insertOrganizationBatch = db.transaction((organizations) => {
+    for (const o of organizations) {
+      const { changes } = insertOrganization.run(...ORGANIZATION_COLUMNS.map(c => o[c]));
+      if (changes) {
+        for (const t of o.taxonomies) insertTaxonomy.run(o.npi, t.slot, t.taxonomy_code, t.is_primary, t.license_state);
+      }
+    }
+  });
+
   const insertBatch = db.transaction((providers) => {
     for (const p of providers) {
-      insertProvider.run(p.npi, p.first_name, p.last_name, p.credential, p.gender,
+      const { changes } = insertProvider.run(p.npi, p.first_name, p.last_name, p.credential, p.gender,
         p.specialty, p.specialty_code, p.city, p.state, p.zip, p.phone,
-        p.address_line1, p.enumeration_date, p.slug);
+        p.address_line1, p.enumeration_date, p.last_updated, p.slug);
+      if (changes) {
+        for (const t of p.taxonomies) insertTaxonomy.run(p.npi, t.slot, t.taxonomy_code, t.is_primary, t.license_state);
+      }
     }
   });
 
@@ -214,56 +1268,28 @@ async function main() {
     lineNum++;
 
     if (lineNum === 1) {
-      const headers = parseCSVLine(line);
-      for (let i = 0; i < headers.length; i++) {
-        const h = headers[i].trim().replace(/"/g, '');
-        headerIndices[h] = i;
-      }
-      console.log(`Found ${headers.length} columns`);
-      const needed = ['NPI', 'Entity Type Code', 'Provider First Name', 'Provider Last Name (Legal Name)'];
-      for (const n of needed) {
-        if (!(n in headerIndices)) {
-          console.error(`Missing column: ${n}`);
-          process.exit(1);
-        }
-      }
+      headerIndices = indexHeaders(line);
       continue;
     }
 
-    const fields = parseCSVLine(line);
-    const get = (col) => (fields[headerIndices[col]] || '').trim().replace(/"/g, '');
-
-    // Filter: Entity Type 1 (Individual only)
-    if (get('Entity Type Code') !== '1') { skipped++; continue; }
-
-    // Filter: Active NPI
-    const deactivDate = get('NPI Deactivation Date');
-    const reactivDate = get('NPI Reactivation Date');
-    if (deactivDate && !reactivDate) { skipped++; continue; }
-
-    // Filter: US practice address
-    const state = get('Provider Business Practice Location Address State Name');
-    if (!VALID_STATES.has(state)) { skipped++; continue; }
-
-    const city = get('Provider Business Practice Location Address City Name');
-    if (!city) { skipped++; continue; }
+    const row = parseNppesRow(line, headerIndices, taxonomy, orgTaxonomy);
+    if (row?.organization) {
+      const { npi, name } = row.organization;
+      let baseSlug = slugify(`${name}-${npi.slice(-4)}`);
+      let slug = baseSlug;
+      for (let suffix = 1; orgSlugSeen.has(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+      orgSlugSeen.set(slug, true);
 
-    // Get taxonomy/specialty
-    const taxCode = get('Healthcare Provider Taxonomy Code_1');
-    const taxInfo = taxonomy.get(taxCode);
-    if (!taxInfo) { skipped++; continue; }
-
-    const npi = get('NPI');
-    const firstName = get('Provider First Name');
-    const lastName = get('Provider Last Name (Legal Name)');
-    if (!npi || !firstName || !lastName) { skipped++; continue; }
-
-    const credential = get('Provider Credential Text') || null;
-    const gender = get('Provider Sex Code') || null;
-    const zip = (get('Provider Business Practice Location Address Postal Code') || '').slice(0, 5);
-    const phone = get('Provider Business Practice Location Address Telephone Number') || null;
-    const address = get('Provider First Line Business Practice Location Address') || null;
-    const enumDate = get('Provider Enumeration Date') || null;
+      batchOrganizations.push({ ...row.organization, taxonomies: row.taxonomies, slug });
+      if (batchOrganizations.length >= BATCH_SIZE) {
+        insertOrganizationBatch(batchOrganizations);
+        orgInserted += batchOrganizations.length;
+        batchOrganizations = [];
+      }
+      continue;
+    }
+    if (!row?.provider) { skipped++; continue; }
+    const { npi, first_name: firstName, last_name: lastName } = row.provider;
 
     // Generate unique slug
     let baseSlug = slugify(`${firstName}-${lastName}-${npi.slice(-4)}`);
@@ -275,12 +1301,7 @@ async function main() {
     }
     slugSeen.set(slug, true);
 
-    batchProviders.push({
-      npi, first_name: firstName, last_name: lastName, credential, gender,
-      specialty: taxInfo.name, specialty_code: taxCode,
-      city, state, zip, phone, address_line1: address,
-      enumeration_date: enumDate, slug,
-    });
+    batchProviders.push({ ...row.provider, taxonomies: row.taxonomies, slug });
 
     if (batchProviders.length >= BATCH_SIZE) {
       insertBatch(batchProviders);
@@ -296,116 +1317,34 @@ async function main() {
     insertBatch(batchProviders);
     inserted += batchProviders.length;
   }
+  if (batchOrganizations.length > 0) {
+    insertOrganizationBatch(batchOrganizations);
+    orgInserted += batchOrganizations.length;
+  }
 
   console.log(`\nProviders: ${inserted.toLocaleString()} inserted, ${skipped.toLocaleString()} skipped`);
+  console.log(`Organizations: ${orgInserted.toLocaleString()} inserted`);
 
-  // --- Build aggregation tables ---
-  console.log('\nBuilding specialties table...');
-  db.prepare(`
-    INSERT INTO specialties (code, name, category, slug, provider_count)
-    SELECT specialty_code, specialty, NULL, '', COUNT(*) as cnt
-    FROM providers
-    GROUP BY specialty_code
-    ORDER BY cnt DESC
-  `).run();
-
-  // Update specialty names and slugs from taxonomy
-  const updateSpecialty = db.prepare('UPDATE specialties SET name = ?, category = ?, slug = ? WHERE code = ?');
-  const specRows = db.prepare('SELECT code FROM specialties').all();
-  const updateSpecBatch = db.transaction((rows) => {
-    for (const row of rows) {
-      const info = taxonomy.get(row.code);
-      if (info) {
-        updateSpecialty.run(info.name, info.category, slugify(info.name), row.code);
-      } else {
-        const prov = db.prepare('SELECT specialty FROM providers WHERE specialty_code = ? LIMIT 1').get(row.code);
-        if (prov) {
-          updateSpecialty.run(prov.specialty, null, slugify(prov.specialty), row.code);
-        }
-      }
-    }
-  });
-  updateSpecBatch(specRows);
-
-  // Handle duplicate specialty slugs
-  const dupSlugs = db.prepare(`
-    SELECT slug, COUNT(*) as cnt FROM specialties GROUP BY slug HAVING cnt > 1
-  `).all();
-  for (const dup of dupSlugs) {
-    const specs = db.prepare('SELECT code, name FROM specialties WHERE slug = ? ORDER BY provider_count DESC').all(dup.slug);
-    for (let i = 1; i < specs.length; i++) {
-      const newSlug = `${dup.slug}-${specs[i].code.slice(0, 6).toLowerCase()}`;
-      db.prepare('UPDATE specialties SET slug = ? WHERE code = ?').run(newSlug, specs[i].code);
-    }
+  if (existsSync(PREV_DB_PATH)) {
+    console.log(`\nRecording changes since the previous release (${releaseDate(nppesFile)})...`);
+    const changes = recordHistoryFromPrevious(db, PREV_DB_PATH, releaseDate(nppesFile));
+    console.log(`  ${changes.toLocaleString()} field changes recorded`);
   }
 
-  const specCount = db.prepare('SELECT COUNT(*) as cnt FROM specialties').get();
-  console.log(`  ${specCount.cnt} specialties`);
-
-  console.log('Building states table...');
-  db.prepare(`
-    INSERT INTO states (abbr, name, slug, provider_count, specialty_count)
-    SELECT state, '', '', COUNT(*) as cnt, COUNT(DISTINCT specialty_code) as scnt
-    FROM providers
-    GROUP BY state
-    ORDER BY cnt DESC
-  `).run();
-
-  const updateState = db.prepare('UPDATE states SET name = ?, slug = ? WHERE abbr = ?');
-  const stateRows = db.prepare('SELECT abbr FROM states').all();
-  const updateStateBatch = db.transaction((rows) => {
-    for (const row of rows) {
-      const name = STATE_NAMES[row.abbr] || row.abbr;
-      updateState.run(name, slugify(name), row.abbr);
-    }
-  });
-  updateStateBatch(stateRows);
-
-  const stateCount = db.prepare('SELECT COUNT(*) as cnt FROM states').get();
-  console.log(`  ${stateCount.cnt} states`);
-
-  console.log('Building cities table...');
-  db.prepare(`
-    INSERT INTO cities (city, state, slug, provider_count)
-    SELECT city, state, '', COUNT(*) as cnt
-    FROM providers
-    GROUP BY city, state
-    HAVING cnt >= 10
-    ORDER BY cnt DESC
-  `).run();
-
-  const updateCity = db.prepare('UPDATE cities SET slug = ? WHERE id = ?');
-  const cityRows = db.prepare('SELECT id, city, state FROM cities').all();
-  const citySlugSeen = new Map();
-  const updateCityBatch = db.transaction((rows) => {
-    for (const row of rows) {
-      let base = slugify(`${row.city}-${row.state}`);
-      let slug = base;
-      let suffix = 1;
-      while (citySlugSeen.has(slug)) {
-        slug = `${base}-${suffix}`;
-        suffix++;
-      }
-      citySlugSeen.set(slug, true);
-      updateCity.run(slug, row.id);
-    }
-  });
-  updateCityBatch(cityRows);
+  // --- Build aggregation tables ---
+  buildAggregates(db, taxonomy);
+  buildOrganizationAggregates(db, orgTaxonomy);
 
-  const cityCount = db.prepare('SELECT COUNT(*) as cnt FROM cities').get();
-  console.log(`  ${cityCount.cnt} cities (10+ providers)`);
+  console.log('Building zip_centroids table...');
+  const zipCount = loadZipCentroids(db);
+  console.log(`  ${zipCount.toLocaleString()} ZIP centroids`);
 
-  console.log('Building specialty_state table...');
-  db.prepare(`
-    INSERT INTO specialty_state (specialty_code, state, provider_count)
-    SELECT specialty_code, state, COUNT(*) as cnt
-    FROM providers
-    GROUP BY specialty_code, state
-    ORDER BY cnt DESC
-  `).run();
+  console.log('Building counties and zip_counties tables...');
+  const countyCount = loadCounties(db);
+  console.log(`  ${countyCount.counties.toLocaleString()} counties, ${countyCount.zips.toLocaleString()} ZIPs mapped`);
 
-  const ssCount = db.prepare('SELECT COUNT(*) as cnt FROM specialty_state').get();
-  console.log(`  ${ssCount.cnt} specialty×state combinations`);
+  buildProvidersFts(db);
+  buildOrganizationsFts(db);
 
   // Create indices
   console.log('\nCreating indices...');
@@ -425,6 +1364,13 @@ async function main() {
     // Covering indexes for paginated specialty+state and city listings (slow query fix)
     'CREATE INDEX IF NOT EXISTS idx_providers_speccode_state_sort ON providers(specialty_code, state, last_name COLLATE NOCASE, first_name COLLATE NOCASE)',
     'CREATE INDEX IF NOT EXISTS idx_providers_city_state_sort ON providers(city, state, last_name COLLATE NOCASE, first_name COLLATE NOCASE)',
+    // ZIP-radius search: per-ZIP counts and name-ordered pages, optionally within one specialty
+    'CREATE INDEX IF NOT EXISTS idx_providers_zip_spec_sort ON providers(zip, specialty_code, last_name COLLATE NOCASE, first_name COLLATE NOCASE)',
+    'CREATE INDEX IF NOT EXISTS idx_zip_centroids_lat_lng ON zip_centroids(lat, lng)',
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_counties_state_slug ON counties(state, slug)',
+    'CREATE INDEX IF NOT EXISTS idx_zip_counties_fips ON zip_counties(fips)',
+    'CREATE INDEX IF NOT EXISTS idx_provider_history_npi ON provider_history(npi, release_date)',
+    ...ORGANIZATION_INDEXES_SQL,
   ];
   for (const idx of indices) {
     db.prepare(idx).run();
@@ -437,25 +1383,10 @@ async function main() {
     db.prepare('CREATE INDEX IF NOT EXISTS idx_nh_state_rating ON nursing_homes(state, overall_rating DESC, beds DESC)').run();
     db.prepare('CREATE INDEX IF NOT EXISTS idx_nh_state_rn ON nursing_homes(state, rn_hours DESC)').run();
     db.prepare('CREATE INDEX IF NOT EXISTS idx_nh_state_deficiencies ON nursing_homes(state, total_deficiencies DESC)').run();
+    db.prepare('CREATE INDEX IF NOT EXISTS idx_nh_lat_lng ON nursing_homes(lat, lng)').run();
   }
 
-  // Create _stats table with pre-computed aggregate values
-  // This avoids expensive COUNT(*) on the 7M-row providers table at runtime
-  console.log('\nPopulating _stats table...');
-  db.prepare('CREATE TABLE IF NOT EXISTS _stats (key TEXT PRIMARY KEY, value TEXT)').run();
-  const statsQueries = [
-    ["provider_count", "SELECT COUNT(*) FROM providers"],
-    ["specialty_count", "SELECT COUNT(*) FROM specialties"],
-    ["state_count", "SELECT COUNT(*) FROM states"],
-    ["city_count", "SELECT COUNT(*) FROM cities"],
-  ];
-  const insertStat = db.prepare('INSERT OR REPLACE INTO _stats (key, value) VALUES (?, ?)');
-  for (const [key, query] of statsQueries) {
-    const row = db.prepare(query).get();
-    const val = Object.values(row)[0];
-    insertStat.run(key, String(val));
-    console.log(`  ${key} = ${val}`);
-  }
+  writeStats(db);
 
   console.log('\nFinalizing database...');
   db.prepare('ANALYZE').run();
@@ -464,6 +1395,7 @@ async function main() {
   console.log('Finalized (ANALYZE + journal_mode=DELETE + VACUUM)');
 
   db.close();
+  if (existsSync(PREV_DB_PATH)) unlinkSync(PREV_DB_PATH);
 
   const stats = statSync(DB_PATH);
   console.log(`\nDatabase: ${DB_PATH}`);
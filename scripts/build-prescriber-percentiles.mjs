@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+// Build Part D prescriber percentile breakpoints per specialty and per specialty × state
+// Usage: node scripts/build-prescriber-percentiles.mjs
+// Input: prescriber_summary + providers in /storage/plaindoctor/plaindoctor.db
+// Output: prescriber_percentiles (rebuilt from scratch)
+// Run after the Part D prescriber tables are loaded and after each build-db.mjs run,
+// since peer groups follow the provider's current NPPES specialty and practice state.
+
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+// Peer groups smaller than this get no breakpoints; a percentile among a
+// handful of prescribers says little
+const MIN_PEERS = 30;
+
+// Each metric is derived from one prescriber_summary row; null = not reported
+// (CMS suppresses counts below 11)
+const METRICS = {
+  total_claims: r => r.total_claims,
+  cost_per_bene: r => r.total_drug_cost != null && r.total_beneficiaries > 0 ? r.total_drug_cost / r.total_beneficiaries : null,
+  opioid_rate: r => r.opioid_prescriber_rate,
+  antibiotic_claims: r => r.antibiotic_claims,
+  brand_share: r => r.brand_claims != null && r.total_claims > 0 ? 100 * r.brand_claims / r.total_claims : null,
+};
+
+// Value at the 1st..99th percentile (nearest-rank) of an ascending list
+function breakpoints(sorted) {
+  const n = sorted.length;
+  const out = [];
+  for (let p = 1; p <= 99; p++) {
+    out.push(Math.round(sorted[Math.max(0, Math.ceil(p * n / 100) - 1)] * 100) / 100);
+  }
+  return out;
+}
+
+function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const db = new Database(DB_PATH);
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'prescriber_summary'").get()) {
+    console.error('prescriber_summary not found; load the Part D prescriber data first');
+    process.exit(1);
+  }
+
+  // specialty_code \t state ('' = all states) → metric → values
+  const groups = new Map();
+  const add = (key, metric, value) => {
+    let g = groups.get(key);
+    if (!g) groups.set(key, g = Object.fromEntries(Object.keys(METRICS).map(m => [m, []])));
+    g[metric].push(value);
+  };
+
+  console.log('Reading prescriber_summary...');
+  let prescribers = 0;
+  const rows = db.prepare(
+    `SELECT p.specialty_code, p.state, ps.total_claims, ps.total_drug_cost, ps.total_beneficiaries,
+       ps.opioid_prescriber_rate, ps.antibiotic_claims, ps.brand_claims
+     FROM prescriber_summary ps JOIN providers p ON p.npi = ps.npi`
+  ).iterate();
+  for (const r of rows) {
+    prescribers++;
+    for (const [metric, fn] of Object.entries(METRICS)) {
+      const v = fn(r);
+      if (v == null) continue;
+      add(`${r.specialty_code}\t${r.state}`, metric, v);
+      add(`${r.specialty_code}\t`, metric, v);
+    }
+  }
+  console.log(`  ${prescribers.toLocaleString()} prescribers in ${groups.size.toLocaleString()} peer groups`);
+
+  db.prepare('DROP TABLE IF EXISTS prescriber_percentiles').run();
+  db.prepare(`CREATE TABLE prescriber_percentiles (
+    specialty_code TEXT NOT NULL,
+    state TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    prescribers INTEGER NOT NULL,
+    breakpoints TEXT NOT NULL,
+    PRIMARY KEY (specialty_code, state, metric)
+  ) WITHOUT ROWID`).run();
+
+  const insert = db.prepare('INSERT INTO prescriber_percentiles (specialty_code, state, metric, prescribers, breakpoints) VALUES (?, ?, ?, ?, ?)');
+  let written = 0;
+  db.transaction(() => {
+    for (const [key, metrics] of groups) {
+      const [specialtyCode, state] = key.split('\t');
+      for (const [metric, values] of Object.entries(metrics)) {
+        if (values.length < MIN_PEERS) continue;
+        values.sort((a, b) => a - b);
+        insert.run(specialtyCode, state, metric, values.length, JSON.stringify(breakpoints(values)));
+        written++;
+      }
+    }
+  })();
+  console.log(`  ${written.toLocaleString()} breakpoint rows written`);
+
+  db.close();
+  console.log('Done!');
+}
+
+main();
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+// Load CMS Hospital General Information (with the Overall Hospital Quality Star Rating) into PlainDoctor SQLite
+// Usage: node scripts/import-hospitals.mjs
+// Input: /storage/plaindoctor/raw/Hospital_General_Information.csv (one row per hospital CCN)
+// Output: hospitals and hospital_states in /storage/plaindoctor/plaindoctor.db
+// Both tables are rebuilt from scratch. Independent of the NPPES tables, so it can run before or after build-db.mjs.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+
+function slugify(str) {
+  return str.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findHospitalFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^Hospital_General_Information.*\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No Hospital_General_Information*.csv file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+// CMS writes "Not Available" for measures a hospital does not report
+function num(value) {
+  const v = value?.trim();
+  if (!v || v === 'Not Available') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function yesNo(value) {
+  const v = value?.trim().toUpperCase();
+  return v === 'YES' || v === 'Y' ? 1 : 0;
+}
+
+function titleCase(str) {
+  return str.toLowerCase().replace(/\b([a-z])/g, c => c.toUpperCase());
+}
+
+const TABLES_SQL = [
+  // *_better / *_worse: measures in each group CMS scores better or worse than the national rate
+  `CREATE TABLE hospitals (
+    ccn TEXT PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    address TEXT,
+    city TEXT,
+    state TEXT NOT NULL,
+    zip TEXT,
+    phone TEXT,
+    county TEXT,
+    hospital_type TEXT,
+    ownership TEXT,
+    emergency_services INTEGER NOT NULL DEFAULT 0,
+    birthing_friendly INTEGER NOT NULL DEFAULT 0,
+    overall_rating INTEGER,
+    mort_measures INTEGER,
+    mort_better INTEGER,
+    mort_worse INTEGER,
+    safety_measures INTEGER,
+    safety_better INTEGER,
+    safety_worse INTEGER,
+    readm_measures INTEGER,
+    readm_better INTEGER,
+    readm_worse INTEGER,
+    pt_exp_measures INTEGER,
+    te_measures INTEGER,
+    measures_better INTEGER NOT NULL DEFAULT 0,
+    measures_worse INTEGER NOT NULL DEFAULT 0
+  ) WITHOUT ROWID`,
+  `CREATE TABLE hospital_states (
+    state TEXT PRIMARY KEY,
+    hospital_count INTEGER NOT NULL,
+    rated_count INTEGER NOT NULL,
+    emergency_count INTEGER NOT NULL,
+    avg_rating REAL
+  ) WITHOUT ROWID`,
+];
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const hospitalFile = findHospitalFile();
+  console.log(`Using hospital file: ${hospitalFile}`);
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  db.prepare('DROP TABLE IF EXISTS hospitals').run();
+  db.prepare('DROP TABLE IF EXISTS hospital_states').run();
+  for (const sql of TABLES_SQL) db.prepare(sql).run();
+
+  const insert = db.prepare(`
+    INSERT INTO hospitals (ccn, slug, name, address, city, state, zip, phone, county, hospital_type, ownership,
+      emergency_services, birthing_friendly, overall_rating,
+      mort_measures, mort_better, mort_worse, safety_measures, safety_better, safety_worse,
+      readm_measures, readm_better, readm_worse, pt_exp_measures, te_measures, measures_better, measures_worse)
+    VALUES (@ccn, @slug, @name, @address, @city, @state, @zip, @phone, @county, @hospital_type, @ownership,
+      @emergency_services, @birthing_friendly, @overall_rating,
+      @mort_measures, @mort_better, @mort_worse, @safety_measures, @safety_better, @safety_worse,
+      @readm_measures, @readm_better, @readm_worse, @pt_exp_measures, @te_measures, @measures_better, @measures_worse)
+  `);
+
+  const rl = createInterface({
+    input: createReadStream(hospitalFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  const rows = [];
+  const slugSeen = new Set();
+  let col = null;
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line.replace(/^\uFEFF/, '')).forEach((h, i) => { col[h.trim()] = i; });
+      for (const n of ['Facility ID', 'Facility Name', 'City/Town', 'State', 'Hospital overall rating']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    const get = (name) => f[col[name]]?.trim() || null;
+    const ccn = get('Facility ID');
+    const name = get('Facility Name');
+    const state = get('State');
+    if (!ccn || !name || !state) continue;
+
+    const city = get('City/Town');
+    const baseSlug = slugify(`${name} ${city ?? ''} ${ccn}`);
+    let slug = baseSlug;
+    for (let suffix = 1; slugSeen.has(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+    slugSeen.add(slug);
+
+    const r = {
+      ccn,
+      slug,
+      name: titleCase(name),
+      address: get('Address') && titleCase(get('Address')),
+      city: city && titleCase(city),
+      state,
+      zip: get('ZIP Code')?.padStart(5, '0') ?? null,
+      phone: get('Telephone Number')?.replace(/\D/g, '') || null,
+      county: get('County/Parish') && titleCase(get('County/Parish')),
+      hospital_type: get('Hospital Type'),
+      ownership: get('Hospital Ownership'),
+      emergency_services: yesNo(get('Emergency Services')),
+      birthing_friendly: yesNo(get('Meets criteria for birthing friendly designation')),
+      overall_rating: num(get('Hospital overall rating')),
+      mort_measures: num(get('Count of Facility MORT Measures')),
+      mort_better: num(get('Count of MORT Measures Better')),
+      mort_worse: num(get('Count of MORT Measures Worse')),
+      safety_measures: num(get('Count of Facility Safety Measures')),
+      safety_better: num(get('Count of Safety Measures Better')),
+      safety_worse: num(get('Count of Safety Measures Worse')),
+      readm_measures: num(get('Count of Facility READM Measures')),
+      readm_better: num(get('Count of READM Measures Better')),
+      readm_worse: num(get('Count of READM Measures Worse')),
+      pt_exp_measures: num(get('Count of Facility Pt Exp Measures')),
+      te_measures: num(get('Count of Facility TE Measures')),
+    };
+    r.measures_better = (r.mort_better ?? 0) + (r.safety_better ?? 0) + (r.readm_better ?? 0);
+    r.measures_worse = (r.mort_worse ?? 0) + (r.safety_worse ?? 0) + (r.readm_worse ?? 0);
+    rows.push(r);
+  }
+
+  db.transaction(() => {
+    for (const r of rows) insert.run(r);
+  })();
+  console.log(`  ${rows.length.toLocaleString()} hospitals loaded`);
+
+  console.log('Building hospital_states...');
+  db.prepare(`
+    INSERT INTO hospital_states (state, hospital_count, rated_count, emergency_count, avg_rating)
+    SELECT state, COUNT(*), COUNT(overall_rating), SUM(emergency_services), ROUND(AVG(overall_rating), 1)
+    FROM hospitals
+    GROUP BY state
+  `).run();
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_hospitals_state_rating ON hospitals(state, overall_rating DESC, measures_better DESC)').run();
+  db.prepare('CREATE INDEX idx_hospitals_rating ON hospitals(overall_rating DESC, measures_better DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+// Load HRSA Health Professional Shortage Areas and compute provider access per county
+// Usage: node scripts/import-hpsa.mjs
+// Input: /storage/plaindoctor/raw/BCD_HPSA_FCT_DET_{PC,MH,DH}.csv (HRSA data.hrsa.gov HPSA detail
+//        downloads for primary care, mental health and dental health)
+// Output: hpsa_designations and county_access in /storage/plaindoctor/plaindoctor.db (rebuilt from scratch)
+// Run after build-db.mjs and optimize-db.sh: provider counts come from county_specialties and
+// populations from counties, so re-run it after each NPPES update as well as each HRSA refresh.
+//
+// Only geographic and population HPSAs are kept; facility designations (FQHCs, prisons, tribal
+// clinics) describe one site rather than the county. A county is flagged 'whole' when a
+// designation covers the entire county and 'partial' when it covers tracts or subdivisions.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+
+// File suffix -> discipline key used in table columns and URLs
+const DISCIPLINES = {
+  PC: 'primary_care',
+  MH: 'mental_health',
+  DH: 'dental',
+};
+
+// NUCC taxonomy codes counted per discipline (LIKE patterns on the provider's primary taxonomy).
+// These follow the provider types HRSA counts when scoring HPSAs.
+const DISCIPLINE_TAXONOMIES = {
+  primary_care: [
+    '207Q%',       // Family Medicine
+    '207R00000X',  // Internal Medicine (general)
+    '207RG0300X',  // Geriatric Medicine (internal medicine)
+    '208000000X',  // Pediatrics (general)
+    '208D00000X',  // General Practice
+    '207V%',       // Obstetrics & Gynecology
+  ],
+  mental_health: [
+    '2084P08%',    // Psychiatry, incl. child & adolescent and geriatric
+    '103T%',       // Psychologist
+    '1041C0700X',  // Clinical Social Worker
+    '106H00000X',  // Marriage & Family Therapist
+    '364SP0808X',  // Psychiatric/Mental Health Clinical Nurse Specialist
+    '363LP0808X',  // Psychiatric/Mental Health Nurse Practitioner
+  ],
+  dental: [
+    '1223%',       // Dentist, all specialties
+  ],
+};
+
+const AREA_DESIGNATION_TYPES = new Set(['Geographic HPSA', 'High Needs Geographic HPSA', 'HPSA Population']);
+const ACTIVE_STATUSES = new Set(['Designated', 'Proposed For Withdrawal']);
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findHpsaFiles() {
+  const files = readdirSync(RAW_DIR).filter(f => /^BCD_HPSA_FCT_DET_(PC|MH|DH)\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No BCD_HPSA_FCT_DET_*.csv files found in', RAW_DIR);
+    process.exit(1);
+  }
+  return files.map(f => ({
+    path: join(RAW_DIR, f),
+    discipline: DISCIPLINES[f.match(/_(PC|MH|DH)\.csv$/i)[1].toUpperCase()],
+  }));
+}
+
+async function loadHpsaFile(db, insert, { path, discipline }) {
+  const rl = createInterface({
+    input: createReadStream(path, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let col = null;
+  let read = 0;
+  const rows = [];
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line.replace(/^\uFEFF/, '')).forEach((h, i) => { col[h.trim()] = i; });
+      for (const n of ['HPSA ID', 'HPSA Name', 'Designation Type', 'HPSA Status', 'HPSA Score',
+        'HPSA Component Type Description', 'Common State County FIPS Code', 'Primary State Abbreviation']) {
+        if (!(n in col)) {
+          console.error(`Missing column in ${path}: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    if (!ACTIVE_STATUSES.has(f[col['HPSA Status']]?.trim())) continue;
+    const type = f[col['Designation Type']]?.trim();
+    if (!AREA_DESIGNATION_TYPES.has(type)) continue;
+    const fips = f[col['Common State County FIPS Code']]?.trim().padStart(5, '0');
+    const id = f[col['HPSA ID']]?.trim();
+    if (!id || !fips || fips === '00000') continue;
+    rows.push([
+      id, discipline, fips,
+      f[col['Primary State Abbreviation']]?.trim(),
+      f[col['HPSA Name']]?.trim() || null,
+      type,
+      f[col['HPSA Component Type Description']]?.trim() === 'Single County' ? 1 : 0,
+      parseInt(f[col['HPSA Score']], 10) || null,
+    ]);
+  }
+
+  db.transaction(() => {
+    for (const r of rows) insert.run(...r);
+  })();
+  console.log(`  ${discipline}: ${read.toLocaleString()} rows read, ${rows.length.toLocaleString()} area designation rows kept`);
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const files = findHpsaFiles();
+
+  const db = new Database(DB_PATH);
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'county_specialties'").get()) {
+    console.error('county_specialties not found; run build-db.mjs (with the county inputs) and optimize-db.sh first');
+    process.exit(1);
+  }
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  db.prepare('DROP TABLE IF EXISTS hpsa_designations').run();
+  db.prepare('DROP TABLE IF EXISTS county_access').run();
+  // One row per designation per county; whole_county = 1 when the component is the entire county
+  db.prepare(`CREATE TABLE hpsa_designations (
+    hpsa_id TEXT NOT NULL,
+    discipline TEXT NOT NULL,
+    fips TEXT NOT NULL,
+    state TEXT NOT NULL,
+    name TEXT,
+    designation_type TEXT NOT NULL,
+    whole_county INTEGER NOT NULL DEFAULT 0,
+    score INTEGER,
+    PRIMARY KEY (hpsa_id, fips)
+  )`).run();
+
+  // Tract-level designations repeat per component; keep one row per county, preferring whole-county
+  const insert = db.prepare(`
+    INSERT INTO hpsa_designations (hpsa_id, discipline, fips, state, name, designation_type, whole_county, score)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (hpsa_id, fips) DO UPDATE SET whole_county = MAX(whole_county, excluded.whole_county)
+  `);
+  console.log('Loading HPSA designations...');
+  for (const file of files) await loadHpsaFile(db, insert, file);
+
+  // hpsa_* columns: 'whole', 'partial' or NULL (no active area designation);
+  // hpsa_score_* is the highest score among that discipline's designations
+  console.log('Building county_access...');
+  const disciplineKeys = Object.values(DISCIPLINES);
+  const countExpr = key => `COALESCE((SELECT SUM(cs.provider_count) FROM county_specialties cs
+      WHERE cs.fips = c.fips AND (${DISCIPLINE_TAXONOMIES[key].map(() => 'cs.specialty_code LIKE ?').join(' OR ')})), 0)`;
+  const hpsaExpr = key => `(SELECT CASE WHEN COUNT(*) = 0 THEN NULL WHEN MAX(h.whole_county) = 1 THEN 'whole' ELSE 'partial' END
+      FROM hpsa_designations h WHERE h.fips = c.fips AND h.discipline = '${key}')`;
+  const scoreExpr = key => `(SELECT MAX(h.score) FROM hpsa_designations h WHERE h.fips = c.fips AND h.discipline = '${key}')`;
+  db.prepare(`CREATE TABLE county_access (
+    fips TEXT PRIMARY KEY,
+    state TEXT NOT NULL,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    population INTEGER,
+    ${disciplineKeys.map(k => `${k} INTEGER NOT NULL,\n    ${k}_per_100k REAL,\n    hpsa_${k} TEXT,\n    hpsa_score_${k} INTEGER`).join(',\n    ')}
+  )`).run();
+  db.prepare(`
+    INSERT INTO county_access
+    SELECT fips, state, name, slug, population,
+      ${disciplineKeys.map(k => `${k}, CASE WHEN population > 0 THEN ROUND(${k} * 100000.0 / population, 1) END, hpsa_${k}, hpsa_score_${k}`).join(',\n      ')}
+    FROM (
+      SELECT c.fips, c.state, c.name, c.slug, c.population,
+        ${disciplineKeys.map(k => `${countExpr(k)} AS ${k}, ${hpsaExpr(k)} AS hpsa_${k}, ${scoreExpr(k)} AS hpsa_score_${k}`).join(',\n        ')}
+      FROM counties c
+    )
+  `).run(...disciplineKeys.flatMap(k => DISCIPLINE_TAXONOMIES[k]));
+  console.log(`  ${db.prepare('SELECT COUNT(*) AS n FROM county_access').get().n.toLocaleString()} counties`);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_hpsa_designations_fips ON hpsa_designations(fips, discipline)').run();
+  db.prepare('CREATE INDEX idx_county_access_state ON county_access(state)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+// Load the OIG List of Excluded Individuals/Entities (LEIE) and flag listed providers and organizations
+// Usage: node scripts/import-leie.mjs
+// Input: /storage/plaindoctor/raw/UPDATED.csv (the full LEIE database download from oig.hhs.gov)
+// Output: exclusions and exclusion_states in /storage/plaindoctor/plaindoctor.db
+// Run after build-db.mjs, and again whenever OIG publishes a monthly update; both tables are rebuilt from scratch.
+//
+// Matching: the LEIE NPI when present and listed; otherwise, for LEIE rows without an NPI,
+// an exact first + last name (individuals) or business name (entities) within the same
+// state, kept only when exactly one listed provider or organization matches.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findLeieFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^UPDATED.*\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No UPDATED*.csv (LEIE) file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+// LEIE dates are YYYYMMDD; 00000000 = not set
+function leieDate(value) {
+  const v = value?.trim();
+  if (!v || !/^\d{8}$/.test(v) || v === '00000000') return null;
+  return `${v.slice(0, 4)}-${v.slice(4, 6)}-${v.slice(6, 8)}`;
+}
+
+const TABLES_SQL = [
+  // entity: 'provider' (providers table) or 'organization' (organizations table)
+  // match_method: 'npi' or 'name_state'; state is the listing's state, not the LEIE address
+  `CREATE TABLE exclusions (
+    npi TEXT PRIMARY KEY,
+    entity TEXT NOT NULL,
+    state TEXT,
+    excl_type TEXT NOT NULL,
+    excl_date TEXT,
+    leie_name TEXT NOT NULL,
+    leie_specialty TEXT,
+    match_method TEXT NOT NULL
+  ) WITHOUT ROWID`,
+  `CREATE TABLE exclusion_states (
+    state TEXT PRIMARY KEY,
+    provider_count INTEGER NOT NULL,
+    organization_count INTEGER NOT NULL
+  ) WITHOUT ROWID`,
+];
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const leieFile = findLeieFile();
+  console.log(`Using LEIE file: ${leieFile}`);
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  db.prepare('DROP TABLE IF EXISTS exclusions').run();
+  db.prepare('DROP TABLE IF EXISTS exclusion_states').run();
+  for (const sql of TABLES_SQL) db.prepare(sql).run();
+
+  const providerByNpi = db.prepare('SELECT npi, state FROM providers WHERE npi = ?');
+  const orgByNpi = db.prepare('SELECT npi, state FROM organizations WHERE npi = ?');
+  // LIMIT 2: a second hit means the name is ambiguous and the row is skipped
+  const providerByName = db.prepare(
+    'SELECT npi, state FROM providers WHERE last_name = ? COLLATE NOCASE AND first_name = ? COLLATE NOCASE AND state = ? LIMIT 2'
+  );
+  const orgByName = db.prepare('SELECT npi, state FROM organizations WHERE state = ? AND name = ? COLLATE NOCASE LIMIT 2');
+  // A listing excluded more than once keeps its earliest exclusion
+  const insert = db.prepare(`
+    INSERT INTO exclusions (npi, entity, state, excl_type, excl_date, leie_name, leie_specialty, match_method)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (npi) DO UPDATE SET
+      excl_type = excluded.excl_type, excl_date = excluded.excl_date, leie_name = excluded.leie_name,
+      leie_specialty = excluded.leie_specialty, match_method = excluded.match_method
+    WHERE excluded.excl_date < exclusions.excl_date
+  `);
+
+  const rl = createInterface({
+    input: createReadStream(leieFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let col = null;
+  let read = 0;
+  const matched = { npi: 0, name_state: 0, ambiguous: 0 };
+  const insertAll = db.transaction((rows) => {
+    for (const r of rows) insert.run(r.npi, r.entity, r.state, r.type, r.date, r.name, r.specialty, r.method);
+  });
+  const rows = [];
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line).forEach((h, i) => { col[h.trim().toUpperCase()] = i; });
+      for (const n of ['LASTNAME', 'FIRSTNAME', 'BUSNAME', 'NPI', 'STATE', 'EXCLTYPE', 'EXCLDATE']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    const get = (name) => f[col[name]]?.trim() || '';
+    // The downloadable LEIE lists active exclusions only, but skip any reinstatement defensively
+    if (leieDate(get('REINDATE'))) continue;
+
+    const last = get('LASTNAME');
+    const first = get('FIRSTNAME');
+    const business = get('BUSNAME');
+    const state = get('STATE');
+    const npi = get('NPI');
+    const isIndividual = !!last;
+    const row = {
+      type: get('EXCLTYPE'),
+      date: leieDate(get('EXCLDATE')),
+      name: isIndividual ? [first, get('MIDNAME'), last].filter(Boolean).join(' ') : business,
+      specialty: get('SPECIALTY') || get('GENERAL') || null,
+    };
+    if (!row.type || !row.name) continue;
+
+    if (/^\d{10}$/.test(npi) && npi !== '0000000000') {
+      const p = providerByNpi.get(npi);
+      const o = p ? null : orgByNpi.get(npi);
+      if (p || o) {
+        rows.push({ ...row, npi, entity: p ? 'provider' : 'organization', state: (p ?? o).state, method: 'npi' });
+        matched.npi++;
+      }
+      continue;
+    }
+
+    if (!state) continue;
+    const hits = isIndividual
+      ? (first ? providerByName.all(last, first, state) : [])
+      : (business ? orgByName.all(state, business) : []);
+    if (hits.length === 1) {
+      rows.push({ ...row, npi: hits[0].npi, entity: isIndividual ? 'provider' : 'organization', state: hits[0].state, method: 'name_state' });
+      matched.name_state++;
+    } else if (hits.length > 1) {
+      matched.ambiguous++;
+    }
+  }
+  insertAll(rows);
+  console.log(`LEIE rows: ${read.toLocaleString()} read; ${matched.npi.toLocaleString()} matched by NPI, ${matched.name_state.toLocaleString()} by name + state, ${matched.ambiguous.toLocaleString()} ambiguous names skipped`);
+
+  console.log('Building exclusion_states...');
+  db.prepare(`
+    INSERT INTO exclusion_states (state, provider_count, organization_count)
+    SELECT state, SUM(entity = 'provider'), SUM(entity = 'organization')
+    FROM exclusions
+    WHERE state IS NOT NULL
+    GROUP BY state
+  `).run();
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_exclusions_state ON exclusions(state, entity, excl_date DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
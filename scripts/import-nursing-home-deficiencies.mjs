@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+// Load CMS nursing home health deficiency citations (one row per cited F-tag) into PlainDoctor SQLite
+// Usage: node scripts/import-nursing-home-deficiencies.mjs
+// Input: /storage/plaindoctor/raw/NH_HealthCitations_*.csv (last 3 standard surveys plus complaint inspections)
+// Output: nursing_home_citations, deficiency_tags, deficiency_tag_states in /storage/plaindoctor/plaindoctor.db
+// Run after the nursing_homes table is loaded; citations for CCNs not in nursing_homes are skipped.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findCitationsFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^NH_HealthCitations.*\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No NH_HealthCitations*.csv file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+// CMS dates come as YYYY-MM-DD or MM/DD/YYYY depending on the export
+function isoDate(value) {
+  const v = value?.trim();
+  if (!v) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(v)) return v.slice(0, 10);
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return us ? `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}` : null;
+}
+
+// Prefix "F" + tag number "0880" -> "F880" (the form used in CMS guidance and on the site)
+function ftag(prefix, number) {
+  const n = parseInt(number, 10);
+  if (!Number.isFinite(n)) return null;
+  return `${(prefix?.trim() || 'F').toUpperCase()}${String(n).padStart(3, '0')}`;
+}
+
+function yes(value) {
+  const v = value?.trim().toUpperCase();
+  return v === 'Y' || v === 'YES' || v === 'TRUE' ? 1 : 0;
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const citationsFile = findCitationsFile();
+  console.log(`Using citations file: ${citationsFile}`);
+
+  const db = new Database(DB_PATH);
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'nursing_homes'").get()) {
+    console.error('nursing_homes not found; load the nursing home provider data first');
+    process.exit(1);
+  }
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  db.prepare('DROP TABLE IF EXISTS nursing_home_citations').run();
+  db.prepare('DROP TABLE IF EXISTS deficiency_tags').run();
+  db.prepare('DROP TABLE IF EXISTS deficiency_tag_states').run();
+  // scope_severity: CMS letter A-L (A = isolated / minimal harm ... L = widespread / immediate jeopardy)
+  db.prepare(`CREATE TABLE nursing_home_citations (
+    id INTEGER PRIMARY KEY,
+    ccn TEXT NOT NULL,
+    state TEXT NOT NULL,
+    survey_date TEXT NOT NULL,
+    ftag TEXT NOT NULL,
+    scope_severity TEXT,
+    is_standard INTEGER NOT NULL DEFAULT 0,
+    is_complaint INTEGER NOT NULL DEFAULT 0,
+    correction_date TEXT
+  )`).run();
+  db.prepare(`CREATE TABLE deficiency_tags (
+    ftag TEXT PRIMARY KEY,
+    description TEXT,
+    category TEXT,
+    citation_count INTEGER NOT NULL
+  )`).run();
+  db.prepare(`CREATE TABLE deficiency_tag_states (
+    ftag TEXT NOT NULL,
+    state TEXT NOT NULL,
+    citation_count INTEGER NOT NULL,
+    home_count INTEGER NOT NULL,
+    PRIMARY KEY (ftag, state)
+  )`).run();
+
+  const insert = db.prepare(`
+    INSERT INTO nursing_home_citations (ccn, state, survey_date, ftag, scope_severity, is_standard, is_complaint, correction_date)
+    SELECT ?, state, ?, ?, ?, ?, ?, ? FROM nursing_homes WHERE ccn = ?
+  `);
+
+  const rl = createInterface({
+    input: createReadStream(citationsFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  // Tag descriptions and categories repeat on every row; keep the first non-empty one per tag
+  const tags = new Map();
+  const rows = [];
+  let col = null;
+  let read = 0;
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line.replace(/^\uFEFF/, '')).forEach((h, i) => { col[h.trim()] = i; });
+      for (const n of ['CMS Certification Number (CCN)', 'Survey Date', 'Deficiency Tag Number', 'Scope Severity Code']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    const ccn = f[col['CMS Certification Number (CCN)']]?.trim().padStart(6, '0');
+    const date = isoDate(f[col['Survey Date']]);
+    const tag = ftag(f[col['Deficiency Prefix']], f[col['Deficiency Tag Number']]);
+    if (!ccn || !date || !tag) continue;
+    tags.set(tag, {
+      description: tags.get(tag)?.description || f[col['Deficiency Description']]?.trim() || null,
+      category: tags.get(tag)?.category || f[col['Deficiency Category']]?.trim() || null,
+    });
+    rows.push([
+      ccn, date, tag,
+      f[col['Scope Severity Code']]?.trim().toUpperCase() || null,
+      yes(f[col['Standard Deficiency']]),
+      yes(f[col['Complaint Deficiency']]),
+      isoDate(f[col['Correction Date']]),
+      ccn,
+    ]);
+  }
+
+  let kept = 0;
+  db.transaction(() => {
+    for (const r of rows) kept += insert.run(...r).changes;
+  })();
+  console.log(`Citations: ${read.toLocaleString()} read, ${kept.toLocaleString()} kept`);
+
+  console.log('Building tag summaries...');
+  const insertTag = db.prepare('INSERT INTO deficiency_tags (ftag, description, category, citation_count) VALUES (?, ?, ?, ?)');
+  const tagCounts = db.prepare('SELECT ftag, COUNT(*) AS n FROM nursing_home_citations GROUP BY ftag').all();
+  db.transaction(() => {
+    for (const { ftag: tag, n } of tagCounts) {
+      const t = tags.get(tag);
+      insertTag.run(tag, t?.description ?? null, t?.category ?? null, n);
+    }
+  })();
+  db.prepare(`
+    INSERT INTO deficiency_tag_states (ftag, state, citation_count, home_count)
+    SELECT ftag, state, COUNT(*), COUNT(DISTINCT ccn)
+    FROM nursing_home_citations
+    GROUP BY ftag, state
+  `).run();
+  console.log(`Tags: ${tagCounts.length.toLocaleString()}`);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_nh_citations_ccn ON nursing_home_citations(ccn, survey_date DESC)').run();
+  db.prepare('CREATE INDEX idx_nh_citations_state_tag ON nursing_home_citations(state, ftag, ccn)').run();
+  db.prepare('CREATE INDEX idx_deficiency_tag_states_state ON deficiency_tag_states(state, citation_count DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+// Load CMS nursing home penalties (itemized fines and payment denials) into PlainDoctor SQLite
+// Usage: node scripts/import-nursing-home-penalties.mjs
+// Input: /storage/plaindoctor/raw/NH_Penalties_*.csv (one row per penalty, last 3 years)
+// Output: nursing_home_penalties in /storage/plaindoctor/plaindoctor.db (rebuilt from scratch)
+// Run after the nursing_homes table is loaded; penalties for CCNs not in nursing_homes are skipped.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findPenaltiesFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^NH_Penalties.*\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No NH_Penalties*.csv file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+// CMS dates come as YYYY-MM-DD or MM/DD/YYYY depending on the export
+function isoDate(value) {
+  const v = value?.trim();
+  if (!v) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(v)) return v.slice(0, 10);
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return us ? `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}` : null;
+}
+
+function num(value) {
+  const v = value?.trim().replace(/[$,]/g, '');
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const penaltiesFile = findPenaltiesFile();
+  console.log(`Using penalties file: ${penaltiesFile}`);
+
+  const db = new Database(DB_PATH);
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'nursing_homes'").get()) {
+    console.error('nursing_homes not found; load the nursing home provider data first');
+    process.exit(1);
+  }
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  db.prepare('DROP TABLE IF EXISTS nursing_home_penalties').run();
+  // penalty_type: 'Fine' (fine_amount set) or 'Payment Denial' (denial_start_date / denial_days set)
+  db.prepare(`CREATE TABLE nursing_home_penalties (
+    id INTEGER PRIMARY KEY,
+    ccn TEXT NOT NULL,
+    state TEXT NOT NULL,
+    penalty_date TEXT NOT NULL,
+    penalty_type TEXT NOT NULL,
+    fine_amount REAL,
+    denial_start_date TEXT,
+    denial_days INTEGER
+  )`).run();
+
+  const insert = db.prepare(`
+    INSERT INTO nursing_home_penalties (ccn, state, penalty_date, penalty_type, fine_amount, denial_start_date, denial_days)
+    SELECT ?, state, ?, ?, ?, ?, ? FROM nursing_homes WHERE ccn = ?
+  `);
+
+  const rl = createInterface({
+    input: createReadStream(penaltiesFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  const rows = [];
+  let col = null;
+  let read = 0;
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line.replace(/^\uFEFF/, '')).forEach((h, i) => { col[h.trim()] = i; });
+      for (const n of ['CMS Certification Number (CCN)', 'Penalty Date', 'Penalty Type', 'Fine Amount']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    const ccn = f[col['CMS Certification Number (CCN)']]?.trim().padStart(6, '0');
+    const date = isoDate(f[col['Penalty Date']]);
+    const type = f[col['Penalty Type']]?.trim();
+    if (!ccn || !date || !type) continue;
+    rows.push([
+      ccn, date, type,
+      num(f[col['Fine Amount']]),
+      isoDate(f[col['Payment Denial Start Date']]),
+      num(f[col['Payment Denial Length in Days']]),
+      ccn,
+    ]);
+  }
+
+  let kept = 0;
+  db.transaction(() => {
+    for (const r of rows) kept += insert.run(...r).changes;
+  })();
+  console.log(`Penalties: ${read.toLocaleString()} read, ${kept.toLocaleString()} kept`);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_nh_penalties_ccn ON nursing_home_penalties(ccn, penalty_date DESC)').run();
+  db.prepare('CREATE INDEX idx_nh_penalties_state_fine ON nursing_home_penalties(state, fine_amount DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
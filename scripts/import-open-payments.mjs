@@ -0,0 +1,268 @@
+#!/usr/bin/env node
+// Load CMS Open Payments (Sunshine Act) general and research payments into PlainDoctor SQLite
+// Usage: node scripts/import-open-payments.mjs
+// Input: /storage/plaindoctor/raw/OP_DTL_GNRL_PGYR*.csv and OP_DTL_RSRCH_PGYR*.csv (one pair per program year)
+// Output: provider_payments (per NPI × year × manufacturer × nature), payment_summary and the
+//         payment_* ranking tables in /storage/plaindoctor/plaindoctor.db
+// Run after build-db.mjs. Every table here is rebuilt from scratch; payments are linked by
+// Covered_Recipient_NPI, and records for NPIs not listed in providers are skipped.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+const BATCH_SIZE = 5000;
+// Recipients kept per specialty (and nationally) per year for the ranking pages
+const TOP_RECIPIENTS = 100;
+// Research payments carry no nature of payment; they are grouped under this one
+const RESEARCH_NATURE = 'Research';
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+// Open Payments free-text columns may contain line breaks inside quotes, so a
+// record continues until its quotes balance
+async function* readRecords(file) {
+  const rl = createInterface({
+    input: createReadStream(file, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+  let pending = null;
+  let quotes = 0;
+  for await (const line of rl) {
+    pending = pending == null ? line : `${pending}\n${line}`;
+    quotes += (line.match(/"/g) || []).length;
+    if (quotes % 2 === 0) {
+      yield parseCSVLine(pending);
+      pending = null;
+      quotes = 0;
+    }
+  }
+  if (pending != null) yield parseCSVLine(pending);
+}
+
+function findPaymentFiles() {
+  const files = readdirSync(RAW_DIR)
+    .filter(f => /^OP_DTL_(GNRL|RSRCH)_PGYR\d{4}_.*\.csv$/i.test(f))
+    .sort();
+  if (files.length === 0) {
+    console.error('No OP_DTL_GNRL_PGYR*.csv or OP_DTL_RSRCH_PGYR*.csv files found in', RAW_DIR);
+    process.exit(1);
+  }
+  return files.map(f => ({ path: join(RAW_DIR, f), type: /_RSRCH_/i.test(f) ? 'research' : 'general' }));
+}
+
+const TABLES_SQL = [
+  `CREATE TABLE provider_payments (
+    npi TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    manufacturer TEXT NOT NULL,
+    nature TEXT NOT NULL,
+    payment_type TEXT NOT NULL,
+    amount REAL NOT NULL,
+    payment_count INTEGER NOT NULL,
+    PRIMARY KEY (npi, year, manufacturer, nature, payment_type)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE payment_summary (
+    npi TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    total_amount REAL NOT NULL,
+    general_amount REAL NOT NULL,
+    research_amount REAL NOT NULL,
+    payment_count INTEGER NOT NULL,
+    manufacturer_count INTEGER NOT NULL,
+    PRIMARY KEY (npi, year)
+  ) WITHOUT ROWID`,
+  // specialty_code '' = all specialties
+  `CREATE TABLE payment_rankings (
+    specialty_code TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    rank INTEGER NOT NULL,
+    npi TEXT NOT NULL,
+    total_amount REAL NOT NULL,
+    PRIMARY KEY (specialty_code, year, rank)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE payment_specialty_stats (
+    specialty_code TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    recipients INTEGER NOT NULL,
+    total_amount REAL NOT NULL,
+    PRIMARY KEY (specialty_code, year)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE payment_manufacturers (
+    year INTEGER NOT NULL,
+    manufacturer TEXT NOT NULL,
+    recipients INTEGER NOT NULL,
+    total_amount REAL NOT NULL,
+    PRIMARY KEY (year, manufacturer)
+  ) WITHOUT ROWID`,
+];
+
+const PAYMENT_TABLES = ['provider_payments', 'payment_summary', 'payment_rankings', 'payment_specialty_stats', 'payment_manufacturers'];
+
+function buildSummaries(db) {
+  console.log('Building payment_summary...');
+  db.prepare(`
+    INSERT INTO payment_summary (npi, year, total_amount, general_amount, research_amount, payment_count, manufacturer_count)
+    SELECT npi, year, SUM(amount),
+      SUM(CASE WHEN payment_type = 'general' THEN amount ELSE 0 END),
+      SUM(CASE WHEN payment_type = 'research' THEN amount ELSE 0 END),
+      SUM(payment_count), COUNT(DISTINCT manufacturer)
+    FROM provider_payments
+    GROUP BY npi, year
+  `).run();
+
+  console.log('Building payment_specialty_stats...');
+  db.prepare(`
+    INSERT INTO payment_specialty_stats (specialty_code, year, recipients, total_amount)
+    SELECT p.specialty_code, s.year, COUNT(*), SUM(s.total_amount)
+    FROM payment_summary s JOIN providers p ON p.npi = s.npi
+    GROUP BY p.specialty_code, s.year
+  `).run();
+
+  console.log('Building payment_manufacturers...');
+  db.prepare(`
+    INSERT INTO payment_manufacturers (year, manufacturer, recipients, total_amount)
+    SELECT year, manufacturer, COUNT(DISTINCT npi), SUM(amount)
+    FROM provider_payments
+    GROUP BY year, manufacturer
+  `).run();
+
+  console.log('Building payment_rankings...');
+  db.prepare(`
+    INSERT INTO payment_rankings (specialty_code, year, rank, npi, total_amount)
+    SELECT specialty_code, year, rn, npi, total_amount
+    FROM (
+      SELECT p.specialty_code, s.year, s.npi, s.total_amount,
+        ROW_NUMBER() OVER (PARTITION BY p.specialty_code, s.year ORDER BY s.total_amount DESC, s.npi) AS rn
+      FROM payment_summary s JOIN providers p ON p.npi = s.npi
+    )
+    WHERE rn <= ?
+  `).run(TOP_RECIPIENTS);
+  db.prepare(`
+    INSERT INTO payment_rankings (specialty_code, year, rank, npi, total_amount)
+    SELECT '', year, rn, npi, total_amount
+    FROM (
+      SELECT year, npi, total_amount,
+        ROW_NUMBER() OVER (PARTITION BY year ORDER BY total_amount DESC, npi) AS rn
+      FROM payment_summary
+    )
+    WHERE rn <= ?
+  `).run(TOP_RECIPIENTS);
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const files = findPaymentFiles();
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  for (const t of PAYMENT_TABLES) db.prepare(`DROP TABLE IF EXISTS ${t}`).run();
+  for (const sql of TABLES_SQL) db.prepare(sql).run();
+
+  // Records for the same NPI, year, manufacturer and nature add up; only listed NPIs are kept
+  const upsert = db.prepare(`
+    INSERT INTO provider_payments (npi, year, manufacturer, nature, payment_type, amount, payment_count)
+    SELECT ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM providers WHERE npi = ?)
+    ON CONFLICT (npi, year, manufacturer, nature, payment_type) DO UPDATE SET
+      amount = amount + excluded.amount,
+      payment_count = payment_count + excluded.payment_count
+  `);
+  const upsertBatch = db.transaction((rows) => {
+    let kept = 0;
+    for (const r of rows) {
+      kept += upsert.run(r.npi, r.year, r.manufacturer, r.nature, r.type, r.amount, r.count, r.npi).changes;
+    }
+    return kept;
+  });
+
+  for (const { path, type } of files) {
+    console.log(`Loading ${type} payments: ${path}`);
+    let col = null;
+    let read = 0;
+    let kept = 0;
+    let batch = [];
+    for await (const f of readRecords(path)) {
+      if (!col) {
+        col = {};
+        f.forEach((h, i) => { col[h.trim()] = i; });
+        const needed = ['Covered_Recipient_NPI', 'Program_Year', 'Total_Amount_of_Payment_USDollars', 'Applicable_Manufacturer_or_Applicable_GPO_Making_Payment_Name'];
+        if (type === 'general') needed.push('Nature_of_Payment_or_Transfer_of_Value');
+        for (const n of needed) {
+          if (!(n in col)) {
+            console.error(`Missing column: ${n}`);
+            process.exit(1);
+          }
+        }
+        continue;
+      }
+      read++;
+      const npi = f[col.Covered_Recipient_NPI]?.trim();
+      const amount = Number(f[col.Total_Amount_of_Payment_USDollars]);
+      const manufacturer = f[col.Applicable_Manufacturer_or_Applicable_GPO_Making_Payment_Name]?.trim();
+      if (!npi || !/^\d{10}$/.test(npi) || !manufacturer || !Number.isFinite(amount)) continue;
+
+      batch.push({
+        npi,
+        year: Number(f[col.Program_Year]),
+        manufacturer,
+        nature: type === 'general' ? (f[col.Nature_of_Payment_or_Transfer_of_Value]?.trim() || 'Other') : RESEARCH_NATURE,
+        type,
+        amount,
+        count: Number(f[col.Number_of_Payments_Included_in_Total_Amount]) || 1,
+      });
+      if (batch.length >= BATCH_SIZE) {
+        kept += upsertBatch(batch);
+        batch = [];
+        if (read % 1000000 < BATCH_SIZE) console.log(`  ${read.toLocaleString()} records read, ${kept.toLocaleString()} kept...`);
+      }
+    }
+    if (batch.length > 0) kept += upsertBatch(batch);
+    console.log(`  ${read.toLocaleString()} records read, ${kept.toLocaleString()} kept`);
+  }
+
+  buildSummaries(db);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_payment_manufacturers_amount ON payment_manufacturers(year, total_amount DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+// Load CMS Medicare Physician & Other Practitioners — by Provider and Service into PlainDoctor SQLite
+// Usage: node scripts/import-part-b-services.mjs
+// Input: /storage/plaindoctor/raw/MUP_PHY_*_Prov_Svc.csv (one row per rendering NPI × HCPCS code × place of service)
+// Output: provider_services, hcpcs_codes, service_summary and specialty_service_stats in /storage/plaindoctor/plaindoctor.db
+// Run after build-db.mjs. Every table here is rebuilt from scratch; rows for NPIs
+// not listed in providers are skipped.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+const BATCH_SIZE = 5000;
+// Services kept per specialty for the /specialty page ranking
+const TOP_SPECIALTY_SERVICES = 25;
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findServiceFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^MUP_PHY_.*_Prov_Svc\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No MUP_PHY_*_Prov_Svc.csv file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+function num(value) {
+  const v = value?.trim();
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+const TABLES_SQL = [
+  `CREATE TABLE hcpcs_codes (
+    code TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    drug_indicator INTEGER NOT NULL DEFAULT 0
+  ) WITHOUT ROWID`,
+  // place_of_service: F = facility, O = office / non-facility. Amounts are per-service averages as CMS reports them
+  `CREATE TABLE provider_services (
+    npi TEXT NOT NULL,
+    hcpcs_code TEXT NOT NULL,
+    place_of_service TEXT NOT NULL,
+    total_beneficiaries INTEGER NOT NULL,
+    total_services REAL NOT NULL,
+    avg_submitted_charge REAL,
+    avg_allowed_amount REAL,
+    avg_paid_amount REAL,
+    PRIMARY KEY (npi, hcpcs_code, place_of_service)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE service_summary (
+    npi TEXT PRIMARY KEY,
+    hcpcs_count INTEGER NOT NULL,
+    total_services REAL NOT NULL,
+    total_allowed REAL,
+    total_paid REAL
+  ) WITHOUT ROWID`,
+  // Top services per provider specialty, by total services; averages are weighted by service volume
+  `CREATE TABLE specialty_service_stats (
+    specialty_code TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    hcpcs_code TEXT NOT NULL,
+    providers INTEGER NOT NULL,
+    total_services REAL NOT NULL,
+    avg_allowed_amount REAL,
+    avg_paid_amount REAL,
+    PRIMARY KEY (specialty_code, rank)
+  ) WITHOUT ROWID`,
+];
+
+const SERVICE_TABLES = ['hcpcs_codes', 'provider_services', 'service_summary', 'specialty_service_stats'];
+
+function buildSummaries(db) {
+  console.log('Building service_summary...');
+  db.prepare(`
+    INSERT INTO service_summary (npi, hcpcs_count, total_services, total_allowed, total_paid)
+    SELECT npi, COUNT(DISTINCT hcpcs_code), SUM(total_services),
+      SUM(avg_allowed_amount * total_services), SUM(avg_paid_amount * total_services)
+    FROM provider_services
+    GROUP BY npi
+  `).run();
+
+  console.log('Building specialty_service_stats...');
+  db.prepare(`
+    INSERT INTO specialty_service_stats (specialty_code, rank, hcpcs_code, providers, total_services, avg_allowed_amount, avg_paid_amount)
+    SELECT specialty_code, rn, hcpcs_code, providers, total_services, avg_allowed, avg_paid
+    FROM (
+      SELECT specialty_code, hcpcs_code, providers, total_services, avg_allowed, avg_paid,
+        ROW_NUMBER() OVER (PARTITION BY specialty_code ORDER BY total_services DESC, hcpcs_code) AS rn
+      FROM (
+        SELECT p.specialty_code, ps.hcpcs_code, COUNT(DISTINCT ps.npi) AS providers, SUM(ps.total_services) AS total_services,
+          SUM(ps.avg_allowed_amount * ps.total_services) / SUM(ps.total_services) AS avg_allowed,
+          SUM(ps.avg_paid_amount * ps.total_services) / SUM(ps.total_services) AS avg_paid
+        FROM provider_services ps JOIN providers p ON p.npi = ps.npi
+        GROUP BY p.specialty_code, ps.hcpcs_code
+      )
+    )
+    WHERE rn <= ?
+  `).run(TOP_SPECIALTY_SERVICES);
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const serviceFile = findServiceFile();
+  console.log(`Using Part B service file: ${serviceFile}`);
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  for (const t of SERVICE_TABLES) db.prepare(`DROP TABLE IF EXISTS ${t}`).run();
+  for (const sql of TABLES_SQL) db.prepare(sql).run();
+
+  // Descriptions repeat on every row; the first one seen for a code is kept
+  const insertCode = db.prepare('INSERT OR IGNORE INTO hcpcs_codes (code, description, drug_indicator) VALUES (?, ?, ?)');
+  const insertRow = db.prepare(`
+    INSERT OR IGNORE INTO provider_services (npi, hcpcs_code, place_of_service, total_beneficiaries, total_services,
+      avg_submitted_charge, avg_allowed_amount, avg_paid_amount)
+    SELECT ?, ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM providers WHERE npi = ?)
+  `);
+  const insertBatch = db.transaction((rows) => {
+    let kept = 0;
+    for (const r of rows) {
+      const changes = insertRow.run(r.npi, r.code, r.place, r.benes, r.services, r.charge, r.allowed, r.paid, r.npi).changes;
+      if (changes) insertCode.run(r.code, r.description, r.drug);
+      kept += changes;
+    }
+    return kept;
+  });
+
+  const rl = createInterface({
+    input: createReadStream(serviceFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let col = null;
+  let read = 0;
+  let kept = 0;
+  let batch = [];
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line).forEach((h, i) => { col[h.trim().replace(/"/g, '')] = i; });
+      for (const n of ['Rndrng_NPI', 'HCPCS_Cd', 'HCPCS_Desc', 'Place_Of_Srvc', 'Tot_Benes', 'Tot_Srvcs', 'Avg_Mdcr_Alowd_Amt', 'Avg_Mdcr_Pymt_Amt']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    const code = f[col.HCPCS_Cd]?.trim();
+    const services = num(f[col.Tot_Srvcs]);
+    if (!code || services == null) continue;
+
+    batch.push({
+      npi: f[col.Rndrng_NPI].trim(),
+      code,
+      description: f[col.HCPCS_Desc]?.trim() || code,
+      drug: f[col.HCPCS_Drug_Ind]?.trim() === 'Y' ? 1 : 0,
+      place: f[col.Place_Of_Srvc]?.trim() || 'O',
+      benes: num(f[col.Tot_Benes]) ?? 0,
+      services,
+      charge: num(f[col.Avg_Sbmtd_Chrg]),
+      allowed: num(f[col.Avg_Mdcr_Alowd_Amt]),
+      paid: num(f[col.Avg_Mdcr_Pymt_Amt]),
+    });
+    if (batch.length >= BATCH_SIZE) {
+      kept += insertBatch(batch);
+      batch = [];
+      if (read % 1000000 < BATCH_SIZE) console.log(`  ${read.toLocaleString()} rows read, ${kept.toLocaleString()} kept...`);
+    }
+  }
+  if (batch.length > 0) kept += insertBatch(batch);
+  console.log(`Rows: ${read.toLocaleString()} read, ${kept.toLocaleString()} kept`);
+
+  buildSummaries(db);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_provider_services_volume ON provider_services(npi, total_services DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
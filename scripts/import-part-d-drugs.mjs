@@ -0,0 +1,325 @@
+#!/usr/bin/env node
+// Load CMS Medicare Part D Prescribers — by Provider and Drug into PlainDoctor SQLite
+// Usage: node scripts/import-part-d-drugs.mjs
+// Input: /storage/plaindoctor/raw/MUP_DPR_*_NPIBN.csv (one row per prescriber NPI × brand/generic drug)
+// Output: prescriber_drug, drugs and the drug_* summary tables in /storage/plaindoctor/plaindoctor.db
+// Run after build-db.mjs. Every table here is rebuilt from scratch; rows for NPIs
+// not listed in providers are skipped.
+
+import Database from 'better-sqlite3';
+import { createReadStream, existsSync, readdirSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+
+const RAW_DIR = '/storage/plaindoctor/raw';
+const DB_PATH = '/storage/plaindoctor/plaindoctor.db';
+const BATCH_SIZE = 5000;
+// Prescribers kept per drug for the /drug page ranking
+const TOP_PRESCRIBERS = 50;
+
+function slugify(str) {
+  return str.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// --- Simple CSV line parser (handles quoted fields) ---
+function parseCSVLine(line) {
+  const fields = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function findDrugFile() {
+  const files = readdirSync(RAW_DIR).filter(f => /^MUP_DPR_.*_NPIBN\.csv$/i.test(f));
+  if (files.length === 0) {
+    console.error('No MUP_DPR_*_NPIBN.csv file found in', RAW_DIR);
+    process.exit(1);
+  }
+  return join(RAW_DIR, files.sort().reverse()[0]);
+}
+
+// Suppressed cells (fewer than 11 beneficiaries) are blank
+function num(value) {
+  const v = value?.trim();
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+const TABLES_SQL = [
+  `CREATE TABLE drugs (
+    id INTEGER PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    brand_name TEXT NOT NULL,
+    generic_name TEXT NOT NULL,
+    prescribers INTEGER NOT NULL DEFAULT 0,
+    total_claims INTEGER NOT NULL DEFAULT 0,
+    total_30day_fills REAL,
+    total_day_supply INTEGER,
+    total_drug_cost REAL
+  )`,
+  `CREATE TABLE prescriber_drug (
+    npi TEXT NOT NULL,
+    drug_id INTEGER NOT NULL,
+    total_claims INTEGER NOT NULL,
+    total_30day_fills REAL,
+    total_day_supply INTEGER,
+    total_drug_cost REAL,
+    total_beneficiaries INTEGER,
+    PRIMARY KEY (npi, drug_id)
+  ) WITHOUT ROWID`,
+  // Per drug × provider specialty and × practice state, from the listed providers
+  `CREATE TABLE drug_specialties (
+    drug_id INTEGER NOT NULL,
+    specialty_code TEXT NOT NULL,
+    prescribers INTEGER NOT NULL,
+    total_claims INTEGER NOT NULL,
+    total_drug_cost REAL,
+    PRIMARY KEY (drug_id, specialty_code)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE drug_states (
+    drug_id INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    prescribers INTEGER NOT NULL,
+    total_claims INTEGER NOT NULL,
+    total_drug_cost REAL,
+    PRIMARY KEY (drug_id, state)
+  ) WITHOUT ROWID`,
+  `CREATE TABLE drug_top_prescribers (
+    drug_id INTEGER NOT NULL,
+    rank INTEGER NOT NULL,
+    npi TEXT NOT NULL,
+    total_claims INTEGER NOT NULL,
+    total_drug_cost REAL,
+    PRIMARY KEY (drug_id, rank)
+  ) WITHOUT ROWID`,
+];
+
+const DRUG_TABLES = ['drugs', 'prescriber_drug', 'drug_specialties', 'drug_states', 'drug_top_prescribers'];
+
+// Rows load against provisional drug ids (first-seen order) and are copied into
+// prescriber_drug once the final ids are known
+const LOAD_TABLE_SQL = `CREATE TEMP TABLE prescriber_drug_load (
+  npi TEXT NOT NULL,
+  drug_id INTEGER NOT NULL,
+  total_claims INTEGER NOT NULL,
+  total_30day_fills REAL,
+  total_day_supply INTEGER,
+  total_drug_cost REAL,
+  total_beneficiaries INTEGER,
+  PRIMARY KEY (npi, drug_id)
+) WITHOUT ROWID`;
+
+// Spellings that slugify alike ("Insulin Lispro" / "INSULIN LISPRO.") are one drug
+const drugKey = (brand, generic) => `${slugify(brand)}\t${slugify(generic)}`;
+
+function buildSummaries(db) {
+  console.log('Building drug totals...');
+  db.prepare(`
+    UPDATE drugs SET (prescribers, total_claims, total_30day_fills, total_day_supply, total_drug_cost) = (
+      SELECT COUNT(*), COALESCE(SUM(total_claims), 0), SUM(total_30day_fills), SUM(total_day_supply), SUM(total_drug_cost)
+      FROM prescriber_drug pd WHERE pd.drug_id = drugs.id
+    )
+  `).run();
+
+  console.log('Building drug_specialties...');
+  db.prepare(`
+    INSERT INTO drug_specialties (drug_id, specialty_code, prescribers, total_claims, total_drug_cost)
+    SELECT pd.drug_id, p.specialty_code, COUNT(*), SUM(pd.total_claims), SUM(pd.total_drug_cost)
+    FROM prescriber_drug pd JOIN providers p ON p.npi = pd.npi
+    GROUP BY pd.drug_id, p.specialty_code
+  `).run();
+
+  console.log('Building drug_states...');
+  db.prepare(`
+    INSERT INTO drug_states (drug_id, state, prescribers, total_claims, total_drug_cost)
+    SELECT pd.drug_id, p.state, COUNT(*), SUM(pd.total_claims), SUM(pd.total_drug_cost)
+    FROM prescriber_drug pd JOIN providers p ON p.npi = pd.npi
+    GROUP BY pd.drug_id, p.state
+  `).run();
+
+  console.log('Building drug_top_prescribers...');
+  db.prepare(`
+    INSERT INTO drug_top_prescribers (drug_id, rank, npi, total_claims, total_drug_cost)
+    SELECT drug_id, rn, npi, total_claims, total_drug_cost
+    FROM (
+      SELECT drug_id, npi, total_claims, total_drug_cost,
+        ROW_NUMBER() OVER (PARTITION BY drug_id ORDER BY total_claims DESC, total_drug_cost DESC, npi) AS rn
+      FROM prescriber_drug
+    )
+    WHERE rn <= ?
+  `).run(TOP_PRESCRIBERS);
+}
+
+async function main() {
+  if (!existsSync(DB_PATH)) {
+    console.error('Database not found:', DB_PATH);
+    process.exit(1);
+  }
+  const drugFile = findDrugFile();
+  console.log(`Using Part D drug file: ${drugFile}`);
+
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = OFF');
+
+  for (const t of DRUG_TABLES) db.prepare(`DROP TABLE IF EXISTS ${t}`).run();
+  for (const sql of TABLES_SQL) db.prepare(sql).run();
+
+  db.prepare(LOAD_TABLE_SQL).run();
+  // Only NPIs we list; providers.npi is the primary key so the check is a point lookup.
+  // Rows for one NPI under two spellings of a drug are summed (suppressed cells stay null).
+  const insertRow = db.prepare(`
+    INSERT INTO prescriber_drug_load (npi, drug_id, total_claims, total_30day_fills, total_day_supply, total_drug_cost, total_beneficiaries)
+    SELECT ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM providers WHERE npi = ?)
+    ON CONFLICT (npi, drug_id) DO UPDATE SET
+      total_claims = total_claims + excluded.total_claims,
+      total_30day_fills = total_30day_fills + excluded.total_30day_fills,
+      total_day_supply = total_day_supply + excluded.total_day_supply,
+      total_drug_cost = total_drug_cost + excluded.total_drug_cost,
+      total_beneficiaries = NULL
+  `);
+  const insertBatch = db.transaction((rows) => {
+    let kept = 0;
+    for (const r of rows) {
+      kept += insertRow.run(r.npi, r.drug_id, r.claims, r.fills, r.day_supply, r.cost, r.benes, r.npi).changes;
+    }
+    return kept;
+  });
+
+  // Normalized brand + generic pair → provisional id, plus the spelling shown on the
+  // page: the one with the most claims, ties to the first alphabetically
+  const provisional = new Map();
+  function drugId(brand, generic, claims) {
+    const key = drugKey(brand, generic);
+    let d = provisional.get(key);
+    if (!d) {
+      d = { id: provisional.size + 1, key, spellings: new Map() };
+      provisional.set(key, d);
+    }
+    const spelling = `${brand}\t${generic}`;
+    d.spellings.set(spelling, (d.spellings.get(spelling) || 0) + claims);
+    return d.id;
+  }
+
+  const rl = createInterface({
+    input: createReadStream(drugFile, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let col = null;
+  let read = 0;
+  let kept = 0;
+  let batch = [];
+  for await (const line of rl) {
+    if (!col) {
+      col = {};
+      parseCSVLine(line).forEach((h, i) => { col[h.trim().replace(/"/g, '')] = i; });
+      for (const n of ['Prscrbr_NPI', 'Brnd_Name', 'Gnrc_Name', 'Tot_Clms', 'Tot_Drug_Cst']) {
+        if (!(n in col)) {
+          console.error(`Missing column: ${n}`);
+          process.exit(1);
+        }
+      }
+      continue;
+    }
+    if (!line.trim()) continue;
+    const f = parseCSVLine(line);
+    read++;
+    const brand = f[col.Brnd_Name]?.trim();
+    const generic = f[col.Gnrc_Name]?.trim();
+    const claims = num(f[col.Tot_Clms]);
+    if (!brand || !generic || claims == null) continue;
+
+    batch.push({
+      npi: f[col.Prscrbr_NPI].trim(),
+      drug_id: drugId(brand, generic, claims),
+      claims,
+      fills: num(f[col.Tot_30day_Fills]),
+      day_supply: num(f[col.Tot_Day_Suply]),
+      cost: num(f[col.Tot_Drug_Cst]),
+      benes: num(f[col.Tot_Benes]),
+    });
+    if (batch.length >= BATCH_SIZE) {
+      kept += insertBatch(batch);
+      batch = [];
+      if (read % 1000000 < BATCH_SIZE) console.log(`  ${read.toLocaleString()} rows read, ${kept.toLocaleString()} kept...`);
+    }
+  }
+  if (batch.length > 0) kept += insertBatch(batch);
+  console.log(`Rows: ${read.toLocaleString()} read, ${kept.toLocaleString()} kept (${provisional.size.toLocaleString()} drugs)`);
+
+  // Final ids and slug suffixes follow total claims (then slug), not file row order, so a
+  // re-import keeps each URL on the same drug; drugs with no listed prescribers are dropped
+  console.log('Assigning drug ids...');
+  const claimsById = new Map(db.prepare('SELECT drug_id, SUM(total_claims) AS claims FROM prescriber_drug_load GROUP BY drug_id')
+    .all().map(r => [r.drug_id, r.claims]));
+  const drugs = [...provisional.values()]
+    .filter(d => claimsById.has(d.id))
+    .map(d => {
+      const [brand, generic] = [...d.spellings].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))[0][0].split('\t');
+      const [brandSlug, genericSlug] = d.key.split('\t');
+      const baseSlug = (brandSlug === genericSlug ? genericSlug : `${brandSlug}-${genericSlug}`) || 'drug';
+      return { ...d, brand, generic, baseSlug, claims: claimsById.get(d.id) };
+    })
+    .sort((a, b) => b.claims - a.claims || (a.baseSlug < b.baseSlug ? -1 : a.baseSlug > b.baseSlug ? 1 : a.key < b.key ? -1 : 1));
+  if (provisional.size > drugs.length) {
+    console.log(`  ${(provisional.size - drugs.length).toLocaleString()} drugs with no listed prescribers skipped`);
+  }
+
+  const insertDrug = db.prepare('INSERT INTO drugs (id, slug, brand_name, generic_name) VALUES (?, ?, ?, ?)');
+  db.prepare('CREATE TEMP TABLE drug_id_map (provisional INTEGER PRIMARY KEY, id INTEGER NOT NULL)').run();
+  const insertMap = db.prepare('INSERT INTO drug_id_map (provisional, id) VALUES (?, ?)');
+  const slugSeen = new Set();
+  db.transaction(() => {
+    drugs.forEach((d, i) => {
+      let slug = d.baseSlug;
+      for (let suffix = 1; slugSeen.has(slug); suffix++) slug = `${d.baseSlug}-${suffix}`;
+      slugSeen.add(slug);
+      insertDrug.run(i + 1, slug, d.brand, d.generic);
+      insertMap.run(d.id, i + 1);
+    });
+  })();
+  db.prepare(`
+    INSERT INTO prescriber_drug (npi, drug_id, total_claims, total_30day_fills, total_day_supply, total_drug_cost, total_beneficiaries)
+    SELECT l.npi, m.id, l.total_claims, l.total_30day_fills, l.total_day_supply, l.total_drug_cost, l.total_beneficiaries
+    FROM prescriber_drug_load l JOIN drug_id_map m ON m.provisional = l.drug_id
+    ORDER BY l.npi, m.id
+  `).run();
+  db.prepare('DROP TABLE prescriber_drug_load').run();
+  db.prepare('DROP TABLE drug_id_map').run();
+
+  buildSummaries(db);
+
+  console.log('Creating indices...');
+  db.prepare('CREATE INDEX idx_drugs_claims ON drugs(total_claims DESC)').run();
+  db.prepare('CREATE INDEX idx_drugs_cost ON drugs(total_drug_cost DESC)').run();
+  db.prepare('CREATE INDEX idx_drug_specialties_claims ON drug_specialties(drug_id, total_claims DESC)').run();
+
+  db.prepare('ANALYZE').run();
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  console.log('Done!');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -2,11 +2,17 @@
 # optimize-db.sh — Add pre-computed cache tables to plaindoctor.db
 # Run on Titan: bash optimize-db.sh /opt/portals/data/sqlite/plaindoctor.db
 # Or locally: bash optimize-db.sh ./data/plaindoctor.db
+# Also run by build-db.mjs --delta after weekly updates (every table here is rebuilt from scratch)
 #
-# Creates 3 cache tables to eliminate expensive queries:
+# Creates 5 cache tables to eliminate expensive queries:
 #   1. sitemap_pages        — Keyset pagination boundaries (eliminates OFFSET scanning)
+#      organization_sitemap_pages — Same boundaries for organizations
 #   2. specialty_top_cities — Top cities per specialty (eliminates GROUP BY on 7M rows)
 #   3. city_top_specialties — Top specialties per city (eliminates GROUP BY on 7M rows)
+#   4. county_specialties   — Provider counts per county and specialty via zip_counties
+#                             (also refreshes counties.provider_count)
+#   5. zip_summary          — Provider count and main city per ZIP, plus
+#      zip_top_specialties    top 10 specialties per ZIP (no GROUP BY on /zip pages)
 
 set -euo pipefail
 
@@ -21,7 +27,7 @@ echo "Optimizing $DB..."
 echo "DB size before: $(du -h "$DB" | cut -f1)"
 
 # Step 1: sitemap_pages
-echo "Step 1/5: Creating sitemap_pages..."
+echo "Step 1/9: Creating sitemap_pages..."
 sqlite3 "$DB" <<'SQL'
 DROP TABLE IF EXISTS sitemap_pages;
 CREATE TABLE sitemap_pages (
@@ -40,8 +46,26 @@ WHERE (row_num - 1) % 50000 = 0;
 SQL
 echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM sitemap_pages') pages created"
 
+sqlite3 "$DB" <<'SQL'
+DROP TABLE IF EXISTS organization_sitemap_pages;
+CREATE TABLE organization_sitemap_pages (
+  page INTEGER PRIMARY KEY,
+  start_npi TEXT NOT NULL
+);
+INSERT INTO organization_sitemap_pages
+SELECT
+  ((row_num - 1) / 50000) + 1 AS page,
+  npi AS start_npi
+FROM (
+  SELECT npi, ROW_NUMBER() OVER (ORDER BY npi) AS row_num
+  FROM organizations
+)
+WHERE (row_num - 1) % 50000 = 0;
+SQL
+echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM organization_sitemap_pages') organization pages created"
+
 # Step 2: Compute specialty×city counts into temp, rank, keep top 30
-echo "Step 2/5: Creating specialty_top_cities..."
+echo "Step 2/9: Creating specialty_top_cities..."
 sqlite3 "$DB" <<'SQL'
 DROP TABLE IF EXISTS specialty_top_cities;
 CREATE TABLE specialty_top_cities (
@@ -73,7 +97,7 @@ SQL
 echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM specialty_top_cities') rows"
 
 # Step 3: Compute city×specialty counts, rank, keep top 25
-echo "Step 3/5: Creating city_top_specialties..."
+echo "Step 3/9: Creating city_top_specialties..."
 sqlite3 "$DB" <<'SQL'
 DROP TABLE IF EXISTS city_top_specialties;
 CREATE TABLE city_top_specialties (
@@ -100,7 +124,7 @@ SQL
 echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM city_top_specialties') rows"
 
 # Step 4: Pre-compute priority sitemap slugs
-echo "Step 4/7: Creating sitemap_priority..."
+echo "Step 4/9: Creating sitemap_priority..."
 sqlite3 "$DB" <<'SQL'
 DROP TABLE IF EXISTS sitemap_priority;
 CREATE TABLE sitemap_priority (slug TEXT NOT NULL);
@@ -125,20 +149,118 @@ LIMIT 49000;
 SQL
 echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM sitemap_priority') slugs"
 
-# Step 5: ANALYZE (update query planner stats)
-echo "Step 5/7: Running ANALYZE..."
+# Step 5: County × specialty counts (counties and zip_counties come from build-db.mjs)
+echo "Step 5/9: Creating county_specialties..."
+if [ -n "$(sqlite3 "$DB" "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'zip_counties'")" ]; then
+sqlite3 "$DB" <<'SQL'
+DROP TABLE IF EXISTS county_specialties;
+CREATE TABLE county_specialties (
+  fips TEXT NOT NULL,
+  specialty_code TEXT NOT NULL,
+  specialty TEXT NOT NULL,
+  provider_count INTEGER NOT NULL,
+  PRIMARY KEY (fips, specialty_code)
+);
+
+INSERT INTO county_specialties (fips, specialty_code, specialty, provider_count)
+SELECT zc.fips, p.specialty_code, MAX(p.specialty), COUNT(*)
+FROM providers p
+JOIN zip_counties zc ON zc.zip = p.zip
+GROUP BY zc.fips, p.specialty_code;
+
+UPDATE counties SET provider_count = COALESCE(
+  (SELECT SUM(provider_count) FROM county_specialties cs WHERE cs.fips = counties.fips), 0
+);
+
+CREATE INDEX idx_county_specialties_fips ON county_specialties(fips, provider_count DESC);
+SQL
+echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM county_specialties') rows"
+else
+  echo "  zip_counties not found, skipping"
+fi
+
+# Step 6: ZIP totals, main city and top specialties (zip×specialty counts are computed once)
+echo "Step 6/9: Creating zip_summary and zip_top_specialties..."
+sqlite3 "$DB" <<'SQL'
+DROP TABLE IF EXISTS zip_summary;
+DROP TABLE IF EXISTS zip_top_specialties;
+CREATE TABLE zip_summary (
+  zip TEXT PRIMARY KEY,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  city_slug TEXT,
+  provider_count INTEGER NOT NULL,
+  specialty_count INTEGER NOT NULL
+);
+CREATE TABLE zip_top_specialties (
+  zip TEXT NOT NULL,
+  specialty_code TEXT NOT NULL,
+  specialty TEXT NOT NULL,
+  provider_count INTEGER NOT NULL
+);
+
+CREATE TEMP TABLE zip_specialty_counts AS
+SELECT zip, specialty_code, MAX(specialty) AS specialty, COUNT(*) AS cnt
+FROM providers
+WHERE length(zip) = 5
+GROUP BY zip, specialty_code;
+
+-- A ZIP's city is the one most of its providers list (USPS city names vary within a ZIP)
+INSERT INTO zip_summary (zip, city, state, city_slug, provider_count, specialty_count)
+SELECT t.zip, top_city.city, top_city.state, c.slug, t.provider_count, t.specialty_count
+FROM (
+  SELECT zip, SUM(cnt) AS provider_count, COUNT(*) AS specialty_count
+  FROM zip_specialty_counts
+  GROUP BY zip
+) t
+JOIN (
+  SELECT zip, city, state
+  FROM (
+    SELECT zip, city, state, ROW_NUMBER() OVER (PARTITION BY zip ORDER BY COUNT(*) DESC, city) AS rn
+    FROM providers
+    WHERE length(zip) = 5
+    GROUP BY zip, city, state
+  )
+  WHERE rn = 1
+) top_city ON top_city.zip = t.zip
+LEFT JOIN cities c ON c.city = top_city.city AND c.state = top_city.state;
+
+INSERT INTO zip_top_specialties (zip, specialty_code, specialty, provider_count)
+SELECT zip, specialty_code, specialty, cnt
+FROM (
+  SELECT zip, specialty_code, specialty, cnt,
+    ROW_NUMBER() OVER (PARTITION BY zip ORDER BY cnt DESC) AS rn
+  FROM zip_specialty_counts
+)
+WHERE rn <= 10;
+
+DROP TABLE zip_specialty_counts;
+CREATE INDEX idx_zts_zip ON zip_top_specialties(zip, provider_count DESC);
+SQL
+echo "  $(sqlite3 "$DB" 'SELECT COUNT(*) FROM zip_summary') ZIPs"
+
+# Nursing homes on /zip pages look up by ZIP (the table comes from the nursing home import)
+if [ -n "$(sqlite3 "$DB" "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'nursing_homes'")" ]; then
+  sqlite3 "$DB" "CREATE INDEX IF NOT EXISTS idx_nh_zip ON nursing_homes(zip);"
+fi
+
+# Step 7: ANALYZE (update query planner stats)
+echo "Step 7/9: Running ANALYZE..."
 sqlite3 "$DB" "ANALYZE;"
 
-# Step 6: VACUUM + journal mode
-echo "Step 6/7: VACUUM + journal_mode=DELETE..."
+# Step 8: VACUUM + journal mode
+echo "Step 8/9: VACUUM + journal_mode=DELETE..."
 sqlite3 "$DB" "VACUUM; PRAGMA journal_mode=DELETE;"
 
-# Step 7: Verify
-echo "Step 7/7: Verifying..."
+# Step 9: Verify
+echo "Step 9/9: Verifying..."
 sqlite3 "$DB" "SELECT 'sitemap_pages: ' || COUNT(*) FROM sitemap_pages;
+SELECT 'organization_sitemap_pages: ' || COUNT(*) FROM organization_sitemap_pages;
 SELECT 'specialty_top_cities: ' || COUNT(*) FROM specialty_top_cities;
 SELECT 'city_top_specialties: ' || COUNT(*) FROM city_top_specialties;
-SELECT 'sitemap_priority: ' || COUNT(*) FROM sitemap_priority;"
+SELECT 'sitemap_priority: ' || COUNT(*) FROM sitemap_priority;
+SELECT 'zip_summary: ' || COUNT(*) FROM zip_summary;
+SELECT 'zip_top_specialties: ' || COUNT(*) FROM zip_top_specialties;"
 
 echo "DB size after: $(du -h "$DB" | cut -f1)"
 echo "Done! Cache tables created."
@@ -0,0 +1,137 @@
+// Shared helpers for the versioned public JSON API (/api/v1/*)
+// Every response is either { data, meta?, links? } or { error: { status, code, message } }.
+
+import type { ProviderCursor, ProviderListing } from './db';
+
+export const API_BASE = '/api/v1';
+
+// Data only changes on ETL deploys; errors are cached briefly so typos don't stick
+const CACHE_HEADERS = {
+  'Content-Type': 'application/json; charset=utf-8',
+  'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+  'Access-Control-Allow-Origin': '*',
+};
+
+const ERROR_CACHE_HEADERS = {
+  ...CACHE_HEADERS,
+  'Cache-Control': 'public, max-age=60',
+};
+
+export function apiResponse(
+  data: unknown, meta?: Record<string, unknown>, links?: Record<string, string | null>
+): Response {
+  return new Response(JSON.stringify({ data, ...(meta && { meta }), ...(links && { links }) }), {
+    headers: CACHE_HEADERS,
+  });
+}
+
+export function apiError(status: number, code: string, message: string): Response {
+  return new Response(JSON.stringify({ error: { status, code, message } }), {
+    status,
+    headers: ERROR_CACHE_HEADERS,
+  });
+}
+
+export const notFound = (what: string) => apiError(404, 'not_found', `${what} not found`);
+
+export function parseLimit(url: URL, fallback = 100, max = 500): number {
+  const n = parseInt(url.searchParams.get('limit') || '');
+  return Number.isFinite(n) ? Math.min(Math.max(n, 1), max) : fallback;
+}
+
+// Opaque keyset cursors: base64url-encoded [last_name, first_name, npi] of the last row
+export function encodeCursor(row: ProviderCursor): string {
+  return Buffer.from(JSON.stringify([row.last_name, row.first_name, row.npi])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string | null): ProviderCursor | null | undefined {
+  if (!cursor) return null;
+  try {
+    const v = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(v) && v.length === 3 && v.every(x => typeof x === 'string')) {
+      return { last_name: v[0], first_name: v[1], npi: v[2] };
+    }
+  } catch {}
+  return undefined;
+}
+
+// Builds { next } for a keyset page: present only when the page came back full
+export function pageLinks(url: URL, rows: ProviderCursor[], limit: number): Record<string, string | null> {
+  const self = url.pathname + url.search;
+  if (rows.length < limit) return { self, next: null };
+  const next = new URL(url);
+  next.searchParams.set('cursor', encodeCursor(rows[rows.length - 1]));
+  next.searchParams.set('limit', String(limit));
+  return { self, next: next.pathname + next.search };
+}
+
+// RFC 4180 row: quote fields containing a comma, quote or newline
+export function csvRow(values: (string | number | boolean | null | undefined)[]): string {
+  return values.map(v => {
+    const s = v == null ? '' : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  }).join(',') + '\r\n';
+}
+
+// --- Streamed exports ---
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_COLUMNS = [
+  'npi', 'first_name', 'last_name', 'credential', 'specialty', 'specialty_code', 'city', 'state', 'zip', 'phone', 'url',
+] as const;
+
+export function parseExportFormat(url: URL): ExportFormat | null {
+  const f = (url.searchParams.get('format') || 'csv').toLowerCase();
+  return f === 'csv' || f === 'ndjson' ? f : null;
+}
+
+// Streams a full listing one keyset page per pull(): memory stays at one page
+// regardless of listing size, and a slow client simply stops further queries.
+export function streamProviderExport(
+  format: ExportFormat, filename: string,
+  fetchPage: (after: ProviderCursor | null, limit: number) => Promise<ProviderListing[]>
+): Response {
+  const encoder = new TextEncoder();
+  let after: ProviderCursor | null = null;
+  let headerSent = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const rows = await fetchPage(after, EXPORT_PAGE_SIZE);
+      let chunk = '';
+      if (format === 'csv' && !headerSent) chunk += csvRow([...EXPORT_COLUMNS]);
+      headerSent = true;
+      for (const p of rows) {
+        const row = { ...p, url: `https://plaindoctor.com/provider/${p.slug}` };
+        chunk += format === 'csv'
+          ? csvRow(EXPORT_COLUMNS.map(c => row[c]))
+          : JSON.stringify(Object.fromEntries(EXPORT_COLUMNS.map(c => [c, row[c]]))) + '\n';
+      }
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (rows.length < EXPORT_PAGE_SIZE) controller.close();
+      else after = rows[rows.length - 1];
+    },
+  });
+
+  return new Response(stream, { headers: exportHeaders(format, filename) });
+}
+
+// Small fixed-size tables (e.g. one row per county) are built in one go rather than streamed
+export function tableExport<T>(
+  format: ExportFormat, filename: string, columns: readonly (keyof T & string)[], rows: T[]
+): Response {
+  const body = format === 'csv'
+    ? csvRow([...columns]) + rows.map(r => csvRow(columns.map(c => r[c] as string | number | null))).join('')
+    : rows.map(r => JSON.stringify(Object.fromEntries(columns.map(c => [c, r[c]]))) + '\n').join('');
+  return new Response(body, { headers: exportHeaders(format, filename) });
+}
+
+function exportHeaders(format: ExportFormat, filename: string): Record<string, string> {
+  return {
+    'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}.${format === 'csv' ? 'csv' : 'ndjson'}"`,
+    'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+  };
+}
@@ -63,6 +63,16 @@ function cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
   return compute().then(result => { queryCache.set(key, result); return result; });
 }
 
+// Tables written by the standalone loaders (scripts/import-*.mjs, build-prescriber-percentiles.mjs)
+// don't exist after a full build-db run until each loader is re-run. Per-provider lookups
+// against them check once per process and come back empty instead of failing the page.
+export function hasTable(db: D1Database, name: string): Promise<boolean> {
+  return cached(`has-table:${name}`, async () => {
+    const row = await db.prepare("SELECT 1 AS ok FROM sqlite_master WHERE type = 'table' AND name = ?").bind(name).first<{ ok: number }>();
+    return row != null;
+  });
+}
+
 // --- Interfaces ---
 
 export interface Provider {
@@ -79,6 +89,7 @@ export interface Provider {
   phone: string | null;
   address_line1: string | null;
   enumeration_date: string | null;
+  last_updated: string | null;
   slug: string;
 }
 
@@ -88,6 +99,7 @@ export interface Specialty {
   category: string | null;
   slug: string;
   provider_count: number;
+  all_provider_count?: number;
 }
 
 export interface StateInfo {
@@ -157,7 +169,22 @@ export function formatNumber(num: number | null): string {
   return num.toLocaleString();
 }
 
-export function formatProviderName(provider: Provider): string {
+// 1 → "1st", 92 → "92nd", 13 → "13th"
+export function formatOrdinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+// NPPES dates are MM/DD/YYYY; ETL release dates are YYYY-MM-DD. Both → "Feb 9, 2026"
+export function formatDate(date: string | null): string {
+  if (!date) return 'N/A';
+  const us = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const iso = us ? `${us[3]}-${us[1]}-${us[2]}` : date;
+  const d = new Date(`${iso}T00:00:00Z`);
+  return isNaN(d.getTime()) ? date : d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export function formatProviderName(provider: Pick<Provider, 'first_name' | 'last_name' | 'credential'>): string {
   const name = `${provider.first_name} ${provider.last_name}`;
   return provider.credential ? `${name}, ${provider.credential}` : name;
 }
@@ -172,24 +199,222 @@ export async function getProviderByNpi(db: D1Database, npi: string): Promise<Pro
   return db.prepare('SELECT * FROM providers WHERE npi = ?').bind(npi).first<Provider>();
 }
 
+// Bulk lookup: IN over a json_each() list so the 500-NPI batch is a single
+// prepared statement whatever its length (the adapter caches statements by SQL text)
+const NPI_BATCH_SIZE = 500;
+
+export async function getProvidersByNpis(
+  db: D1Database, npis: string[]
+): Promise<Map<string, Provider & { has_part_d: number }>> {
+  const found = new Map<string, Provider & { has_part_d: number }>();
+  for (let i = 0; i < npis.length; i += NPI_BATCH_SIZE) {
+    const { results } = await db.prepare(
+      `SELECT p.*, EXISTS(SELECT 1 FROM prescriber_summary ps WHERE ps.npi = p.npi) AS has_part_d
+       FROM providers p WHERE p.npi IN (SELECT value FROM json_each(?))`
+    ).bind(JSON.stringify(npis.slice(i, i + NPI_BATCH_SIZE))).all<Provider & { has_part_d: number }>();
+    for (const row of results) found.set(row.npi, row);
+  }
+  return found;
+}
+
+// 'primary' counts and lists providers by their primary taxonomy only;
+// 'all' includes providers who list the specialty in any of their 15 NPPES slots
+export type TaxonomyScope = 'primary' | 'all';
+
 export async function getProvidersBySpecialtyAndState(
-  db: D1Database, specialtyCode: string, state: string, limit = 50, offset = 0
+  db: D1Database, specialtyCode: string, state: string, limit = 50, offset = 0, scope: TaxonomyScope = 'primary'
 ): Promise<Pick<Provider, 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'city' | 'state' | 'zip' | 'phone'>[]> {
-  const { results } = await db.prepare(
-    'SELECT slug, first_name, last_name, credential, specialty, city, state, zip, phone FROM providers WHERE specialty_code = ? AND state = ? ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE LIMIT ? OFFSET ?'
+  // 'all' pages through the materialized specialty_listing_all sort index, then looks
+  // each provider up by NPI (CROSS JOIN pins that join order)
+  const { results } = await (scope === 'all'
+    ? db.prepare(
+        `SELECT p.slug, p.first_name, p.last_name, p.credential, p.specialty, p.city, p.state, p.zip, p.phone
+         FROM specialty_listing_all l
+         CROSS JOIN providers p ON p.npi = l.npi
+         WHERE l.specialty_code = ? AND l.state = ?
+         ORDER BY l.last_name COLLATE NOCASE, l.first_name COLLATE NOCASE LIMIT ? OFFSET ?`
+      )
+    : db.prepare(
+        'SELECT slug, first_name, last_name, credential, specialty, city, state, zip, phone FROM providers WHERE specialty_code = ? AND state = ? ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE LIMIT ? OFFSET ?'
+      )
   ).bind(specialtyCode, state, limit, offset).all();
   return results as Pick<Provider, 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'city' | 'state' | 'zip' | 'phone'>[];
 }
 
+// Keyset pagination (API): resume strictly after the last row of the previous
+// page instead of OFFSET, so deep pages cost the same as the first one.
+// npi breaks ties between identical names so the cursor is unambiguous; the
+// plain last_name range lets SQLite seek the sort index instead of scanning.
+export interface ProviderCursor {
+  last_name: string;
+  first_name: string;
+  npi: string;
+}
+
+export type ProviderListing = Pick<Provider, 'npi' | 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'specialty_code' | 'city' | 'state' | 'zip' | 'phone'>;
+
+export async function getProvidersBySpecialtyAndStateAfter(
+  db: D1Database, specialtyCode: string, state: string, after: ProviderCursor | null, limit = 100
+): Promise<ProviderListing[]> {
+  const { results } = await (after
+    ? db.prepare(
+        `SELECT npi, slug, first_name, last_name, credential, specialty, specialty_code, city, state, zip, phone FROM providers
+         WHERE specialty_code = ? AND state = ?
+           AND last_name >= ? COLLATE NOCASE
+           AND (last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi) > (?, ?, ?)
+         ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi LIMIT ?`
+      ).bind(specialtyCode, state, after.last_name, after.last_name, after.first_name, after.npi, limit)
+    : db.prepare(
+        `SELECT npi, slug, first_name, last_name, credential, specialty, specialty_code, city, state, zip, phone FROM providers
+         WHERE specialty_code = ? AND state = ?
+         ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi LIMIT ?`
+      ).bind(specialtyCode, state, limit)
+  ).all<ProviderListing>();
+  return results;
+}
+
 export async function getProviderCountBySpecialtyAndState(
-  db: D1Database, specialtyCode: string, state: string
+  db: D1Database, specialtyCode: string, state: string, scope: TaxonomyScope = 'primary'
 ): Promise<number> {
   const row = await db.prepare(
-    'SELECT provider_count FROM specialty_state WHERE specialty_code = ? AND state = ?'
+    `SELECT provider_count FROM ${scope === 'all' ? 'specialty_state_all' : 'specialty_state'} WHERE specialty_code = ? AND state = ?`
   ).bind(specialtyCode, state).first<{ provider_count: number }>();
   return row?.provider_count || 0;
 }
 
+// --- Provider Taxonomies (every NPPES taxonomy slot, not just the listed specialty) ---
+
+export interface ProviderTaxonomy {
+  slot: number;
+  taxonomy_code: string;
+  is_primary: number;
+  license_state: string | null;
+  name: string | null;
+  slug: string | null;
+}
+
+export async function getProviderTaxonomies(db: D1Database, npi: string): Promise<ProviderTaxonomy[]> {
+  const { results } = await db.prepare(
+    `SELECT t.slot, t.taxonomy_code, t.is_primary, t.license_state, s.name, s.slug
+     FROM provider_taxonomies t
+     LEFT JOIN specialties s ON s.code = t.taxonomy_code
+     WHERE t.npi = ? ORDER BY t.slot`
+  ).bind(npi).all<ProviderTaxonomy>();
+  return results;
+}
+
+// --- Provider Change History (NPPES release-over-release diffs, recorded by the ETL) ---
+
+export interface ProviderChange {
+  release_date: string;
+  field: 'address' | 'phone' | 'specialty' | 'credential';
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export async function getProviderHistory(db: D1Database, npi: string): Promise<ProviderChange[]> {
+  const { results } = await db.prepare(
+    `SELECT release_date, field, old_value, new_value FROM provider_history
+     WHERE npi = ? ORDER BY release_date DESC`
+  ).bind(npi).all<ProviderChange>();
+  return results;
+}
+
+// --- OIG Exclusions (LEIE matches for listed providers and organizations, loaded by scripts/import-leie.mjs) ---
+
+export interface Exclusion {
+  npi: string;
+  entity: 'provider' | 'organization';
+  state: string | null;
+  excl_type: string;
+  excl_date: string | null;
+  leie_name: string;
+  leie_specialty: string | null;
+  match_method: 'npi' | 'name_state';
+}
+
+// Social Security Act authorities OIG cites in the EXCLTYPE column
+const EXCLUSION_TYPE_LABELS: Record<string, string> = {
+  '1128a1': 'Conviction of program-related crimes',
+  '1128a2': 'Conviction relating to patient abuse or neglect',
+  '1128a3': 'Felony conviction relating to health care fraud',
+  '1128a4': 'Felony conviction relating to controlled substances',
+  '1128b1': 'Misdemeanor conviction relating to health care fraud',
+  '1128b2': 'Conviction relating to obstruction of an investigation',
+  '1128b3': 'Misdemeanor conviction relating to controlled substances',
+  '1128b4': 'License revocation, suspension or surrender',
+  '1128b5': 'Exclusion or suspension under a federal or state health care program',
+  '1128b6': 'Claims for excessive charges or unnecessary services',
+  '1128b7': 'Fraud, kickbacks and other prohibited activities',
+  '1128b8': 'Entity controlled by a sanctioned individual',
+  '1128b11': 'Failure to disclose required information',
+  '1128b14': 'Default on health education loan or scholarship obligations',
+  '1128b15': 'Individual controlling a sanctioned entity',
+  '1128b16': 'Making false statements or misrepresentation of material facts',
+  '1128Aa': 'Civil monetary penalty',
+  '1156': 'Failure to meet statutory obligations (QIO recommendation)',
+};
+
+export function formatExclusionType(code: string): string {
+  const label = EXCLUSION_TYPE_LABELS[code] ?? EXCLUSION_TYPE_LABELS[code.toLowerCase()];
+  return label ? `${label} (§${code})` : `§${code}`;
+}
+
+export async function getExclusion(db: D1Database, npi: string): Promise<Exclusion | null> {
+  if (!(await hasTable(db, 'exclusions'))) return null;
+  return db.prepare('SELECT * FROM exclusions WHERE npi = ?').bind(npi).first<Exclusion>();
+}
+
+export async function getExclusionsByNpis(db: D1Database, npis: string[]): Promise<Map<string, Exclusion>> {
+  if (npis.length === 0 || !(await hasTable(db, 'exclusions'))) return new Map();
+  const { results } = await db.prepare(
+    'SELECT e.* FROM json_each(?) j JOIN exclusions e ON e.npi = j.value'
+  ).bind(JSON.stringify(npis)).all<Exclusion>();
+  return new Map(results.map(e => [e.npi, e]));
+}
+
+export interface ExclusionState {
+  state: string;
+  provider_count: number;
+  organization_count: number;
+}
+
+export function getExclusionStates(db: D1Database): Promise<ExclusionState[]> {
+  return cached('exclusion-states', async () => {
+    if (!(await hasTable(db, 'exclusion_states'))) return [];
+    const { results } = await db.prepare(
+      'SELECT * FROM exclusion_states ORDER BY provider_count + organization_count DESC'
+    ).all<ExclusionState>();
+    return results;
+  });
+}
+
+export interface ExcludedListing extends Exclusion {
+  name: string;
+  slug: string;
+  detail: string | null;
+  city: string | null;
+}
+
+// Listings in a state that are on the LEIE, most recent exclusion first
+export async function getExcludedListingsByState(
+  db: D1Database, state: string, limit = 50, offset = 0
+): Promise<ExcludedListing[]> {
+  if (!(await hasTable(db, 'exclusions'))) return [];
+  const { results } = await db.prepare(
+    `SELECT e.*, p.first_name || ' ' || p.last_name AS name, p.slug, p.specialty AS detail, p.city
+     FROM exclusions e JOIN providers p ON p.npi = e.npi
+     WHERE e.state = ? AND e.entity = 'provider'
+     UNION ALL
+     SELECT e.*, o.name, o.slug, o.taxonomy AS detail, o.city
+     FROM exclusions e JOIN organizations o ON o.npi = e.npi
+     WHERE e.state = ? AND e.entity = 'organization'
+     ORDER BY excl_date DESC, npi
+     LIMIT ? OFFSET ?`
+  ).bind(state, state, limit, offset).all<ExcludedListing>();
+  return results;
+}
+
 // --- Specialties ---
 
 export async function getAllSpecialties(_db: D1Database): Promise<Specialty[]> {
@@ -204,10 +429,12 @@ export async function getTopSpecialties(_db: D1Database, limit = 20): Promise<Sp
   return (precomputed.specialties as Specialty[]).slice(0, limit);
 }
 
-export function getSpecialtyStates(db: D1Database, specialtyCode: string): Promise<SpecialtyState[]> {
-  return cached(`spec-states:${specialtyCode}`, async () => {
+export function getSpecialtyStates(
+  db: D1Database, specialtyCode: string, scope: TaxonomyScope = 'primary'
+): Promise<SpecialtyState[]> {
+  return cached(`spec-states:${specialtyCode}:${scope}`, async () => {
     const { results } = await db.prepare(
-      'SELECT * FROM specialty_state WHERE specialty_code = ? ORDER BY provider_count DESC'
+      `SELECT * FROM ${scope === 'all' ? 'specialty_state_all' : 'specialty_state'} WHERE specialty_code = ? ORDER BY provider_count DESC`
     ).bind(specialtyCode).all<SpecialtyState>();
     return results;
   });
@@ -264,6 +491,26 @@ export async function getProvidersByCity(
   return results as Pick<Provider, 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'phone'>[];
 }
 
+export async function getProvidersByCityAfter(
+  db: D1Database, city: string, state: string, after: ProviderCursor | null, limit = 100
+): Promise<ProviderListing[]> {
+  const { results } = await (after
+    ? db.prepare(
+        `SELECT npi, slug, first_name, last_name, credential, specialty, specialty_code, city, state, zip, phone FROM providers
+         WHERE city = ? AND state = ?
+           AND last_name >= ? COLLATE NOCASE
+           AND (last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi) > (?, ?, ?)
+         ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi LIMIT ?`
+      ).bind(city, state, after.last_name, after.last_name, after.first_name, after.npi, limit)
+    : db.prepare(
+        `SELECT npi, slug, first_name, last_name, credential, specialty, specialty_code, city, state, zip, phone FROM providers
+         WHERE city = ? AND state = ?
+         ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE, npi LIMIT ?`
+      ).bind(city, state, limit)
+  ).all<ProviderListing>();
+  return results;
+}
+
 export async function getCitySpecialties(
   db: D1Database, city: string, state: string, limit = 20
 ): Promise<{ specialty: string; specialty_code: string; count: number }[]> {
@@ -277,6 +524,138 @@ export async function getCitySpecialties(
   return results;
 }
 
+// --- Counties (Census population estimates + HUD ZIP-County crosswalk, loaded by build-db.mjs) ---
+// Providers map to a county through their practice ZIP; counts come from optimize-db.sh.
+
+export interface CountyInfo {
+  fips: string;
+  state: string;
+  name: string;
+  slug: string;
+  population: number | null;
+  provider_count: number;
+}
+
+export function perHundredThousand(count: number, population: number | null): number | null {
+  if (!population) return null;
+  return Math.round(count / (population / 100000) * 10) / 10;
+}
+
+export function getCountiesByState(db: D1Database, state: string): Promise<CountyInfo[]> {
+  return cached(`counties:${state}`, async () => {
+    const { results } = await db.prepare(
+      'SELECT * FROM counties WHERE state = ? ORDER BY name'
+    ).bind(state).all<CountyInfo>();
+    return results;
+  });
+}
+
+export async function getCountyBySlug(db: D1Database, state: string, slug: string): Promise<CountyInfo | null> {
+  return db.prepare('SELECT * FROM counties WHERE state = ? AND slug = ?').bind(state, slug).first<CountyInfo>();
+}
+
+export async function getCountyByZip(db: D1Database, zip: string): Promise<CountyInfo | null> {
+  return db.prepare(
+    'SELECT c.* FROM zip_counties zc JOIN counties c ON c.fips = zc.fips WHERE zc.zip = ?'
+  ).bind(zip.slice(0, 5)).first<CountyInfo>();
+}
+
+export async function getCountySpecialties(
+  db: D1Database, fips: string, limit = 30
+): Promise<{ specialty: string; specialty_code: string; slug: string | null; count: number }[]> {
+  // Materialized table lookup, same as getCitySpecialties
+  const { results } = await db.prepare(
+    `SELECT cs.specialty, cs.specialty_code, s.slug, cs.provider_count as count
+     FROM county_specialties cs
+     LEFT JOIN specialties s ON s.code = cs.specialty_code
+     WHERE cs.fips = ?
+     ORDER BY cs.provider_count DESC LIMIT ?`
+  ).bind(fips, limit).all<{ specialty: string; specialty_code: string; slug: string | null; count: number }>();
+  return results;
+}
+
+export async function getNursingHomesByCounty(db: D1Database, fips: string, state: string): Promise<NursingHome[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM nursing_homes
+     WHERE state = ? AND zip IN (SELECT zip FROM zip_counties WHERE fips = ?)
+     ORDER BY overall_rating DESC, beds DESC`
+  ).bind(state, fips).all<NursingHome>();
+  return results;
+}
+
+export async function getSitemapCounties(db: D1Database): Promise<Pick<CountyInfo, 'state' | 'slug'>[]> {
+  const { results } = await db.prepare(
+    'SELECT state, slug FROM counties WHERE provider_count > 0 ORDER BY state, slug'
+  ).all<Pick<CountyInfo, 'state' | 'slug'>>();
+  return results;
+}
+
+// --- County Access (providers per 100K + HRSA shortage areas, loaded by scripts/import-hpsa.mjs) ---
+
+export type AccessDiscipline = 'primary_care' | 'mental_health' | 'dental';
+
+export const ACCESS_DISCIPLINES: { key: AccessDiscipline; label: string }[] = [
+  { key: 'primary_care', label: 'Primary Care' },
+  { key: 'mental_health', label: 'Mental Health' },
+  { key: 'dental', label: 'Dental' },
+];
+
+// 'whole' = a geographic or population HPSA covers the entire county, 'partial' = tracts or subdivisions only
+export type HpsaCoverage = 'whole' | 'partial' | null;
+
+export interface CountyAccess {
+  fips: string;
+  state: string;
+  name: string;
+  slug: string;
+  population: number | null;
+  primary_care: number;
+  primary_care_per_100k: number | null;
+  hpsa_primary_care: HpsaCoverage;
+  hpsa_score_primary_care: number | null;
+  mental_health: number;
+  mental_health_per_100k: number | null;
+  hpsa_mental_health: HpsaCoverage;
+  hpsa_score_mental_health: number | null;
+  dental: number;
+  dental_per_100k: number | null;
+  hpsa_dental: HpsaCoverage;
+  hpsa_score_dental: number | null;
+}
+
+// Fewest providers per resident first, ties to the discipline's own HPSA score;
+// counties without a population estimate go last
+const ACCESS_ORDER_SQL: Record<AccessDiscipline, string> = {
+  primary_care: 'primary_care_per_100k IS NULL, primary_care_per_100k, hpsa_score_primary_care DESC, name',
+  mental_health: 'mental_health_per_100k IS NULL, mental_health_per_100k, hpsa_score_mental_health DESC, name',
+  dental: 'dental_per_100k IS NULL, dental_per_100k, hpsa_score_dental DESC, name',
+};
+
+export function parseAccessDiscipline(value: string | null): AccessDiscipline {
+  return ACCESS_DISCIPLINES.find(d => d.key === value)?.key ?? 'primary_care';
+}
+
+export function getCountyAccessByState(db: D1Database, state: string, discipline: AccessDiscipline = 'primary_care'): Promise<CountyAccess[]> {
+  return cached(`county-access:${state}:${discipline}`, async () => {
+    if (!(await hasTable(db, 'county_access'))) return [];
+    const { results } = await db.prepare(
+      `SELECT * FROM county_access WHERE state = ? ORDER BY ${ACCESS_ORDER_SQL[discipline]}`
+    ).bind(state).all<CountyAccess>();
+    return results;
+  });
+}
+
+export async function getCountyAccess(db: D1Database, fips: string): Promise<CountyAccess | null> {
+  if (!(await hasTable(db, 'county_access'))) return null;
+  return db.prepare('SELECT * FROM county_access WHERE fips = ?').bind(fips).first<CountyAccess>();
+}
+
+export async function getSitemapAccessStates(db: D1Database): Promise<string[]> {
+  if (!(await hasTable(db, 'county_access'))) return [];
+  const { results } = await db.prepare('SELECT DISTINCT state FROM county_access ORDER BY state').all<{ state: string }>();
+  return results.map(r => r.state);
+}
+
 // --- Sitemap Helpers ---
 
 export async function getSitemapPageBoundary(db: D1Database, page: number): Promise<string | null> {
@@ -298,27 +677,351 @@ export async function getSitemapPageCount(db: D1Database): Promise<number> {
 
 // --- Search ---
 
-export async function searchProviders(db: D1Database, query: string, limit = 20): Promise<Provider[]> {
+// Lay terms people type → words that actually appear in NUCC specialty names.
+// Each token is OR-ed with its synonyms, so "cardiologist boston" still hits
+// "Cardiovascular Disease Physician".
+const SEARCH_SYNONYMS: Record<string, string[]> = {
+  cardiologist: ['cardiovascular', 'cardiology'],
+  cardiology: ['cardiovascular'],
+  pediatrician: ['pediatrics'],
+  pediatric: ['pediatrics'],
+  dermatologist: ['dermatology'],
+  psychiatrist: ['psychiatry'],
+  psychologist: ['psychology'],
+  neurologist: ['neurology'],
+  oncologist: ['oncology'],
+  urologist: ['urology'],
+  gynecologist: ['gynecology'],
+  obgyn: ['obstetrics', 'gynecology'],
+  ophthalmologist: ['ophthalmology'],
+  optometrist: ['optometry', 'optometrist'],
+  orthopedist: ['orthopaedic', 'orthopedic'],
+  orthopedic: ['orthopaedic'],
+  podiatrist: ['podiatry', 'podiatrist'],
+  chiropractor: ['chiropractor'],
+  therapist: ['therapy', 'therapist'],
+  gastroenterologist: ['gastroenterology'],
+  endocrinologist: ['endocrinology'],
+  radiologist: ['radiology'],
+  anesthesiologist: ['anesthesiology'],
+  surgeon: ['surgery'],
+  dentist: ['dentist', 'dental'],
+  nurse: ['nurse', 'nursing'],
+};
+
+// Turn free text into an FTS5 MATCH expression.
+// Words become AND-ed prefix terms; 5-digit numbers are pinned to the zip column.
+function buildFtsQuery(query: string): string | null {
+  const tokens = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!tokens) return null;
+  const terms: string[] = [];
+  for (const tok of tokens.slice(0, 8)) {
+    if (/^\d{5}$/.test(tok)) {
+      terms.push(`zip:"${tok}"`);
+    } else if (tok.length >= 2) {
+      const alts = [tok, ...(SEARCH_SYNONYMS[tok] ?? [])];
+      terms.push(alts.length > 1 ? `(${alts.map(a => `"${a}"*`).join(' OR ')})` : `"${tok}"*`);
+    }
+  }
+  return terms.length > 0 ? terms.join(' AND ') : null;
+}
+
+export interface SearchFilters {
+  state?: string;
+  specialty_code?: string;
+  city?: string;
+  gender?: string;
+  credential?: string;
+}
+
+// Same normalization build-db.mjs applies to providers_fts.credential ("M.D." → "MD")
+export function normalizeCredential(value: string): string {
+  return value.toUpperCase().replace(/[. ]/g, '');
+}
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+  state?: string;
+}
+
+export interface SearchFacets {
+  state: SearchFacetValue[];
+  specialty: SearchFacetValue[];
+  city: SearchFacetValue[];
+  gender: SearchFacetValue[];
+  credential: SearchFacetValue[];
+}
+
+// Facet counts tally at most this many matches. Multi-word queries come in far
+// below it; a bare two-letter prefix can match 100K+ rows and is reported as partial.
+const FACET_SCAN_LIMIT = 10000;
+
+// Facet filters hit the UNINDEXED columns stored in providers_fts itself
+function ftsFilterClause(filters: SearchFilters): { sql: string; params: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+  for (const col of ['state', 'specialty_code', 'city', 'gender', 'credential'] as const) {
+    const value = filters[col];
+    if (value) {
+      clauses.push(`AND ${col} = ?`);
+      params.push(value);
+    }
+  }
+  return { sql: clauses.join(' '), params };
+}
+
+export async function searchProviders(
+  db: D1Database, query: string, limit = 20, filters: SearchFilters = {}, offset = 0
+): Promise<Provider[]> {
   const trimmed = query.trim();
   if (!trimmed) return [];
   // Check if query is an NPI number (10 digits)
   if (/^\d{10}$/.test(trimmed)) {
     const result = await getProviderByNpi(db, trimmed);
-    return result ? [result] : [];
+    return result && offset === 0 ? [result] : [];
   }
-  // Search last_name only using prefix match + index (idx_providers_last_name)
-  // OR with multiple columns forces a full 7M-row SCAN; single-column search
-  // is dramatically cheaper and covers the primary use case
-  const prefix = trimmed + '%';
+  const match = buildFtsQuery(trimmed);
+  if (!match) return [];
+  const filter = ftsFilterClause(filters);
+  // FTS5 index built by the ETL (providers_fts) — never touches the 7M-row
+  // providers table except for PK lookups on the matched NPIs.
+  // bm25 weights: npi (unindexed), first_name, last_name, specialty, city, zip
   const { results } = await db.prepare(`
-    SELECT * FROM providers
-    WHERE last_name LIKE ?
-    ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE
-    LIMIT ?
-  `).bind(prefix, limit).all<Provider>();
+    SELECT p.* FROM (
+      SELECT npi, bm25(providers_fts, 0, 4.0, 8.0, 3.0, 2.0, 2.0) AS score
+      FROM providers_fts
+      WHERE providers_fts MATCH ? ${filter.sql}
+      ORDER BY score
+      LIMIT ? OFFSET ?
+    ) f
+    JOIN providers p ON p.npi = f.npi
+    ORDER BY f.score
+  `).bind(match, ...filter.params, limit, offset).all<Provider>();
+  return results;
+}
+
+// Name-only variant for directory clients (FHIR `name=`): every word must
+// prefix-match first or last name; specialty/city/ZIP text is ignored.
+export async function searchProvidersByName(
+  db: D1Database, name: string, limit = 20, filters: SearchFilters = {}, offset = 0
+): Promise<Provider[]> {
+  const tokens = (name.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(t => t.length >= 2).slice(0, 8);
+  if (tokens.length === 0) return [];
+  const match = tokens.map(t => `{first_name last_name}: "${t}"*`).join(' AND ');
+  const filter = ftsFilterClause(filters);
+  const { results } = await db.prepare(`
+    SELECT p.* FROM (
+      SELECT npi, bm25(providers_fts, 0, 4.0, 8.0, 3.0, 2.0, 2.0) AS score
+      FROM providers_fts
+      WHERE providers_fts MATCH ? ${filter.sql}
+      ORDER BY score, npi
+      LIMIT ? OFFSET ?
+    ) f
+    JOIN providers p ON p.npi = f.npi
+    ORDER BY f.score, f.npi
+  `).bind(match, ...filter.params, limit, offset).all<Provider>();
+  return results;
+}
+
+export async function getSearchFacets(
+  db: D1Database, query: string, filters: SearchFilters = {}
+): Promise<{ total: number; partial: boolean; facets: SearchFacets }> {
+  const empty: SearchFacets = { state: [], specialty: [], city: [], gender: [], credential: [] };
+  const trimmed = query.trim();
+  let rows: { state: string; specialty_code: string; city: string; gender: string | null; credential: string | null }[] = [];
+
+  if (/^\d{10}$/.test(trimmed)) {
+    const p = await getProviderByNpi(db, trimmed);
+    if (p) rows = [{ ...p, credential: p.credential ? normalizeCredential(p.credential) : null }];
+  } else {
+    const match = buildFtsQuery(trimmed);
+    if (!match) return { total: 0, partial: false, facets: empty };
+    const filter = ftsFilterClause(filters);
+    const { results } = await db.prepare(`
+      SELECT state, specialty_code, city, gender, credential
+      FROM providers_fts
+      WHERE providers_fts MATCH ? ${filter.sql}
+      LIMIT ?
+    `).bind(match, ...filter.params, FACET_SCAN_LIMIT + 1).all<typeof rows[number]>();
+    rows = results;
+  }
+
+  const partial = rows.length > FACET_SCAN_LIMIT;
+  if (partial) rows = rows.slice(0, FACET_SCAN_LIMIT);
+
+  const tally = (key: (r: typeof rows[number]) => string | null | undefined) => {
+    const counts = new Map<string, number>();
+    for (const r of rows) {
+      const k = key(r);
+      if (k) counts.set(k, (counts.get(k) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  };
+
+  const specialtyNames = new Map((precomputed.specialties as Specialty[]).map(s => [s.code, s]));
+  const facets: SearchFacets = {
+    state: tally(r => r.state).map(([value, count]) => ({ value, label: getStateName(value), count })),
+    specialty: tally(r => r.specialty_code).slice(0, 20).map(([value, count]) => ({
+      value: specialtyNames.get(value)?.slug || value,
+      label: specialtyNames.get(value)?.name || value,
+      count,
+    })),
+    city: tally(r => `${r.city}|${r.state}`).slice(0, 20).map(([key, count]) => {
+      const [city, state] = key.split('|');
+      return { value: city, label: `${city.split(' ').map(w => w.charAt(0) + w.slice(1).toLowerCase()).join(' ')}, ${state}`, count, state };
+    }),
+    gender: tally(r => r.gender).map(([value, count]) => ({
+      value, label: value === 'M' ? 'Male' : value === 'F' ? 'Female' : value, count,
+    })),
+    credential: tally(r => r.credential).slice(0, 15).map(([value, count]) => ({ value, label: value, count })),
+  };
+
+  return { total: rows.length, partial, facets };
+}
+
+// --- ZIP Radius Search ---
+// Providers only carry a practice ZIP, so distance is ZIP-centroid to ZIP-centroid
+// (zip_centroids, loaded from the Census ZCTA Gazetteer by the ETL).
+
+export interface ZipCentroid {
+  zip: string;
+  lat: number;
+  lng: number;
+}
+
+export interface NearbyProvider extends Pick<Provider, 'npi' | 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'city' | 'state' | 'zip' | 'phone'> {
+  distance: number;
+}
+
+export const RADIUS_OPTIONS = [1, 5, 10, 25, 50, 100];
+
+export function haversineMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (d: number) => d * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(a));
+}
+
+export async function getZipCentroid(db: D1Database, zip: string): Promise<ZipCentroid | null> {
+  return db.prepare('SELECT zip, lat, lng FROM zip_centroids WHERE zip = ?').bind(zip).first<ZipCentroid>();
+}
+
+export async function getZipsWithinRadius(
+  db: D1Database, lat: number, lng: number, radiusMiles: number
+): Promise<{ zip: string; distance: number }[]> {
+  // Bounding box on idx_zip_centroids_lat_lng, then exact haversine in JS
+  const dLat = radiusMiles / 69;
+  const dLng = radiusMiles / (69 * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  const { results } = await db.prepare(
+    'SELECT zip, lat, lng FROM zip_centroids WHERE lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?'
+  ).bind(lat - dLat, lat + dLat, lng - dLng, lng + dLng).all<ZipCentroid>();
+  return results
+    .map(z => ({ zip: z.zip, distance: haversineMiles(lat, lng, z.lat, z.lng) }))
+    .filter(z => z.distance <= radiusMiles)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export async function searchProvidersNearZip(
+  db: D1Database, zip: string, radiusMiles: number, specialtyCode: string | null = null, limit = 50, offset = 0
+): Promise<{ origin: ZipCentroid; total: number; results: NearbyProvider[] } | null> {
+  const origin = await getZipCentroid(db, zip);
+  if (!origin) return null;
+  const zips = await getZipsWithinRadius(db, origin.lat, origin.lng, radiusMiles);
+  if (zips.length === 0) return { origin, total: 0, results: [] };
+
+  // Per-ZIP counts straight off idx_providers_zip_spec_sort (json_each keeps
+  // one prepared statement regardless of how many ZIPs are in range)
+  const zipList = JSON.stringify(zips.map(z => z.zip));
+  const { results: counts } = await (specialtyCode
+    ? db.prepare(
+        'SELECT zip, COUNT(*) as cnt FROM providers WHERE zip IN (SELECT value FROM json_each(?)) AND specialty_code = ? GROUP BY zip'
+      ).bind(zipList, specialtyCode)
+    : db.prepare(
+        'SELECT zip, COUNT(*) as cnt FROM providers WHERE zip IN (SELECT value FROM json_each(?)) GROUP BY zip'
+      ).bind(zipList)
+  ).all<{ zip: string; cnt: number }>();
+  const countByZip = new Map(counts.map(c => [c.zip, c.cnt]));
+
+  // Walk ZIPs nearest-first and only read the slices that fall inside this page
+  const results: NearbyProvider[] = [];
+  let total = 0;
+  for (const z of zips) {
+    const cnt = countByZip.get(z.zip) || 0;
+    if (cnt === 0) continue;
+    const start = Math.max(offset - total, 0);
+    const take = Math.min(cnt - start, limit - results.length);
+    if (start < cnt && take > 0) {
+      const { results: rows } = await (specialtyCode
+        ? db.prepare(
+            `SELECT npi, slug, first_name, last_name, credential, specialty, city, state, zip, phone FROM providers
+             WHERE zip = ? AND specialty_code = ? ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE LIMIT ? OFFSET ?`
+          ).bind(z.zip, specialtyCode, take, start)
+        : db.prepare(
+            `SELECT npi, slug, first_name, last_name, credential, specialty, city, state, zip, phone FROM providers
+             WHERE zip = ? ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE LIMIT ? OFFSET ?`
+          ).bind(z.zip, take, start)
+      ).all<Omit<NearbyProvider, 'distance'>>();
+      const distance = Math.round(z.distance * 10) / 10;
+      for (const r of rows) results.push({ ...r, distance });
+    }
+    total += cnt;
+  }
+
+  return { origin, total, results };
+}
+
+// --- ZIP Pages (zip_summary / zip_top_specialties from optimize-db.sh) ---
+
+export interface ZipSummary {
+  zip: string;
+  city: string;
+  state: string;
+  city_slug: string | null;
+  provider_count: number;
+  specialty_count: number;
+}
+
+export async function getZipSummary(db: D1Database, zip: string): Promise<ZipSummary | null> {
+  return db.prepare('SELECT * FROM zip_summary WHERE zip = ?').bind(zip).first<ZipSummary>();
+}
+
+export async function getZipSpecialties(
+  db: D1Database, zip: string
+): Promise<{ specialty: string; specialty_code: string; slug: string | null; count: number }[]> {
+  const { results } = await db.prepare(
+    `SELECT zs.specialty, zs.specialty_code, s.slug, zs.provider_count as count
+     FROM zip_top_specialties zs
+     LEFT JOIN specialties s ON s.code = zs.specialty_code
+     WHERE zs.zip = ?
+     ORDER BY zs.provider_count DESC`
+  ).bind(zip).all<{ specialty: string; specialty_code: string; slug: string | null; count: number }>();
+  return results;
+}
+
+export async function getProvidersByZip(
+  db: D1Database, zip: string, limit = 50, offset = 0
+): Promise<Pick<Provider, 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'phone'>[]> {
+  const { results } = await db.prepare(
+    'SELECT slug, first_name, last_name, credential, specialty, phone FROM providers WHERE zip = ? ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE LIMIT ? OFFSET ?'
+  ).bind(zip, limit, offset).all<Pick<Provider, 'slug' | 'first_name' | 'last_name' | 'credential' | 'specialty' | 'phone'>>();
+  return results;
+}
+
+export async function getNursingHomesByZip(db: D1Database, zip: string): Promise<NursingHome[]> {
+  const { results } = await db.prepare(
+    'SELECT * FROM nursing_homes WHERE zip = ? ORDER BY overall_rating DESC, beds DESC'
+  ).bind(zip).all<NursingHome>();
   return results;
 }
 
+export async function getSitemapZips(db: D1Database): Promise<string[]> {
+  const { results } = await db.prepare('SELECT zip FROM zip_summary ORDER BY zip').all<{ zip: string }>();
+  return results.map(r => r.zip);
+}
+
 // --- Comparison ---
 
 export interface SpecialtyStateRow {
@@ -342,6 +1045,13 @@ export function getSpecialtyStateDistribution(
   });
 }
 
+// Provider comparisons take 2-4 NPIs; the canonical URL lists them in ascending order
+export const MAX_COMPARE_PROVIDERS = 4;
+
+export function providerCompareUrl(npis: string[]): string {
+  return '/compare/providers/' + [...new Set(npis)].sort().join('-vs-');
+}
+
 // --- Stats (pre-computed to avoid full table scans on every page load) ---
 
 export async function getNationalStats(_db: D1Database) {
@@ -447,50 +1157,419 @@ export function getNationalPrescriberStats(db: D1Database): Promise<{
   });
 }
 
-// --- Related Providers ---
+// --- Part D Drugs (by Provider and Drug) ---
+// A drug is a brand/generic name pair as CMS reports it. National, specialty,
+// state and top-prescriber figures come from the drug_* tables built by
+// scripts/import-part-d-drugs.mjs, so even the most prescribed drugs are index lookups.
 
-export interface RelatedProvider {
+export interface Drug {
+  id: number;
   slug: string;
-  first_name: string;
-  last_name: string;
-  credential: string | null;
-  specialty: string;
-  city: string;
-  state: string;
+  brand_name: string;
+  generic_name: string;
+  prescribers: number;
+  total_claims: number;
+  total_30day_fills: number | null;
+  total_day_supply: number | null;
+  total_drug_cost: number | null;
 }
 
-export async function getRelatedProviders(
-  db: D1Database, specialtyCode: string, state: string, excludeNpi: string, limit = 6
-): Promise<RelatedProvider[]> {
-  // Cache per specialty+state (fetch slightly more, filter excludeNpi in JS)
-  const all = await cached(`related:${specialtyCode}:${state}`, async () => {
+export type DrugOrder = 'claims' | 'cost';
+
+const DRUG_ORDER_SQL: Record<DrugOrder, string> = {
+  claims: 'total_claims DESC',
+  cost: 'total_drug_cost DESC',
+};
+
+export function formatDrugName(d: Pick<Drug, 'brand_name' | 'generic_name'>): string {
+  return d.brand_name.toLowerCase() === d.generic_name.toLowerCase() ? d.generic_name : `${d.brand_name} (${d.generic_name})`;
+}
+
+export async function getDrugBySlug(db: D1Database, slug: string): Promise<Drug | null> {
+  return db.prepare('SELECT * FROM drugs WHERE slug = ?').bind(slug).first<Drug>();
+}
+
+export function getTopDrugs(db: D1Database, order: DrugOrder = 'claims', limit = 100): Promise<Drug[]> {
+  return cached(`top-drugs:${order}:${limit}`, async () => {
     const { results } = await db.prepare(
-      `SELECT npi, slug, first_name, last_name, credential, specialty, city, state
-       FROM providers
-       WHERE specialty_code = ? AND state = ?
-       ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE
-       LIMIT ?`
-    ).bind(specialtyCode, state, limit + 5).all<RelatedProvider & { npi: string }>();
+      `SELECT * FROM drugs ORDER BY ${DRUG_ORDER_SQL[order]} LIMIT ?`
+    ).bind(limit).all<Drug>();
     return results;
   });
-  return all.filter(p => p.npi !== excludeNpi).slice(0, limit);
 }
 
-// --- Specialty Stats (for provider detail context) ---
+export interface ProviderDrug {
+  slug: string;
+  brand_name: string;
+  generic_name: string;
+  total_claims: number;
+  total_30day_fills: number | null;
+  total_drug_cost: number | null;
+  total_beneficiaries: number | null;
+}
 
-export async function getSpecialtyStats(db: D1Database, specialtyCode: string): Promise<{
-  total_providers: number;
-  states_count: number;
-  prescribers: number | null;
-  avg_claims: number | null;
-  avg_cost: number | null;
-} | null> {
-  // Materialized table — pre-computed during ETL, single PK lookup (<1ms)
-  return db.prepare(
-    'SELECT total_providers, states_count, prescribers, avg_claims, avg_cost FROM specialty_prescriber_stats WHERE specialty_code = ?'
+export async function getProviderDrugs(db: D1Database, npi: string, order: DrugOrder = 'claims', limit = 10): Promise<ProviderDrug[]> {
+  if (!(await hasTable(db, 'prescriber_drug'))) return [];
+  const { results } = await db.prepare(
+    `SELECT d.slug, d.brand_name, d.generic_name, pd.total_claims, pd.total_30day_fills, pd.total_drug_cost, pd.total_beneficiaries
+     FROM prescriber_drug pd JOIN drugs d ON d.id = pd.drug_id
+     WHERE pd.npi = ?
+     ORDER BY pd.${DRUG_ORDER_SQL[order]}
+     LIMIT ?`
+  ).bind(npi, limit).all<ProviderDrug>();
+  return results;
+}
+
+export interface DrugSpecialty {
+  specialty_code: string;
+  name: string | null;
+  slug: string | null;
+  prescribers: number;
+  total_claims: number;
+  total_drug_cost: number | null;
+}
+
+export async function getDrugSpecialties(db: D1Database, drugId: number, limit = 15): Promise<DrugSpecialty[]> {
+  const { results } = await db.prepare(
+    `SELECT ds.specialty_code, s.name, s.slug, ds.prescribers, ds.total_claims, ds.total_drug_cost
+     FROM drug_specialties ds LEFT JOIN specialties s ON s.code = ds.specialty_code
+     WHERE ds.drug_id = ?
+     ORDER BY ds.total_claims DESC
+     LIMIT ?`
+  ).bind(drugId, limit).all<DrugSpecialty>();
+  return results;
+}
+
+export interface DrugState {
+  state: string;
+  prescribers: number;
+  total_claims: number;
+  total_drug_cost: number | null;
+}
+
+export async function getDrugStates(db: D1Database, drugId: number): Promise<DrugState[]> {
+  const { results } = await db.prepare(
+    `SELECT state, prescribers, total_claims, total_drug_cost
+     FROM drug_states WHERE drug_id = ?
+     ORDER BY total_claims DESC`
+  ).bind(drugId).all<DrugState>();
+  return results;
+}
+
+export interface DrugPrescriber {
+  rank: number;
+  npi: string;
+  slug: string;
+  first_name: string;
+  last_name: string;
+  credential: string | null;
+  specialty: string;
+  city: string;
+  state: string;
+  total_claims: number;
+  total_drug_cost: number | null;
+}
+
+export async function getDrugTopPrescribers(db: D1Database, drugId: number, limit = 25): Promise<DrugPrescriber[]> {
+  const { results } = await db.prepare(
+    `SELECT t.rank, t.npi, p.slug, p.first_name, p.last_name, p.credential, p.specialty, p.city, p.state,
+       t.total_claims, t.total_drug_cost
+     FROM drug_top_prescribers t JOIN providers p ON p.npi = t.npi
+     WHERE t.drug_id = ? AND t.rank <= ?
+     ORDER BY t.rank`
+  ).bind(drugId, limit).all<DrugPrescriber>();
+  return results;
+}
+
+export async function getSitemapDrugSlugs(db: D1Database): Promise<string[]> {
+  const { results } = await db.prepare(
+    'SELECT slug FROM drugs ORDER BY total_claims DESC'
+  ).all<{ slug: string }>();
+  return results.map(r => r.slug);
+}
+
+// --- Part B Services (Medicare Physician & Other Practitioners, by Provider and Service) ---
+// provider_services holds one row per NPI × HCPCS code × place of service;
+// service_summary and specialty_service_stats are built by scripts/import-part-b-services.mjs.
+
+export interface ServiceSummary {
+  npi: string;
+  hcpcs_count: number;
+  total_services: number;
+  total_allowed: number | null;
+  total_paid: number | null;
+}
+
+export interface ProviderService {
+  hcpcs_code: string;
+  description: string;
+  place_of_service: 'F' | 'O';
+  total_beneficiaries: number;
+  total_services: number;
+  avg_allowed_amount: number | null;
+  avg_paid_amount: number | null;
+}
+
+export interface SpecialtyService {
+  hcpcs_code: string;
+  description: string;
+  providers: number;
+  total_services: number;
+  avg_allowed_amount: number | null;
+  avg_paid_amount: number | null;
+}
+
+export async function getServiceSummary(db: D1Database, npi: string): Promise<ServiceSummary | null> {
+  if (!(await hasTable(db, 'service_summary'))) return null;
+  return db.prepare('SELECT * FROM service_summary WHERE npi = ?').bind(npi).first<ServiceSummary>();
+}
+
+export async function getProviderServices(db: D1Database, npi: string, limit = 15): Promise<ProviderService[]> {
+  if (!(await hasTable(db, 'provider_services'))) return [];
+  const { results } = await db.prepare(
+    `SELECT ps.hcpcs_code, h.description, ps.place_of_service, ps.total_beneficiaries, ps.total_services,
+       ps.avg_allowed_amount, ps.avg_paid_amount
+     FROM provider_services ps JOIN hcpcs_codes h ON h.code = ps.hcpcs_code
+     WHERE ps.npi = ?
+     ORDER BY ps.total_services DESC
+     LIMIT ?`
+  ).bind(npi, limit).all<ProviderService>();
+  return results;
+}
+
+export function getSpecialtyServices(db: D1Database, specialtyCode: string, limit = 15): Promise<SpecialtyService[]> {
+  return cached(`spec-services:${specialtyCode}:${limit}`, async () => {
+    if (!(await hasTable(db, 'specialty_service_stats'))) return [];
+    const { results } = await db.prepare(
+      `SELECT s.hcpcs_code, h.description, s.providers, s.total_services, s.avg_allowed_amount, s.avg_paid_amount
+       FROM specialty_service_stats s JOIN hcpcs_codes h ON h.code = s.hcpcs_code
+       WHERE s.specialty_code = ? AND s.rank <= ?
+       ORDER BY s.rank`
+    ).bind(specialtyCode, limit).all<SpecialtyService>();
+    return results;
+  });
+}
+
+// --- Open Payments (industry payments to providers) ---
+// provider_payments holds per-NPI yearly totals by manufacturer and nature of payment;
+// payment_summary, payment_rankings, payment_specialty_stats and payment_manufacturers
+// are built from it by scripts/import-open-payments.mjs.
+
+export interface PaymentSummary {
+  year: number;
+  total_amount: number;
+  general_amount: number;
+  research_amount: number;
+  payment_count: number;
+  manufacturer_count: number;
+}
+
+export interface PaymentBreakdown {
+  name: string;
+  amount: number;
+  payment_count: number;
+}
+
+export function formatDollars(v: number | null): string {
+  if (v == null) return 'N/A';
+  return '$' + (v >= 1e9 ? (v / 1e9).toFixed(2) + 'B' : v >= 1e6 ? (v / 1e6).toFixed(1) + 'M' : v >= 1e4 ? (v / 1e3).toFixed(0) + 'K' : Math.round(v).toLocaleString());
+}
+
+export function getPaymentYears(db: D1Database): Promise<number[]> {
+  return cached('payment-years', async () => {
+    const { results } = await db.prepare(
+      "SELECT DISTINCT year FROM payment_rankings WHERE specialty_code = '' ORDER BY year DESC"
+    ).all<{ year: number }>();
+    return results.map(r => r.year);
+  });
+}
+
+// Newest year first
+export async function getProviderPaymentSummary(db: D1Database, npi: string): Promise<PaymentSummary[]> {
+  if (!(await hasTable(db, 'payment_summary'))) return [];
+  const { results } = await db.prepare(
+    `SELECT year, total_amount, general_amount, research_amount, payment_count, manufacturer_count
+     FROM payment_summary WHERE npi = ? ORDER BY year DESC`
+  ).bind(npi).all<PaymentSummary>();
+  return results;
+}
+
+export async function getProviderPaymentsBy(
+  db: D1Database, npi: string, year: number, by: 'manufacturer' | 'nature', limit = 10
+): Promise<PaymentBreakdown[]> {
+  const { results } = await db.prepare(
+    `SELECT ${by} AS name, SUM(amount) AS amount, SUM(payment_count) AS payment_count
+     FROM provider_payments WHERE npi = ? AND year = ?
+     GROUP BY ${by}
+     ORDER BY amount DESC
+     LIMIT ?`
+  ).bind(npi, year, limit).all<PaymentBreakdown>();
+  return results;
+}
+
+export interface PaymentRecipient {
+  rank: number;
+  npi: string;
+  slug: string;
+  first_name: string;
+  last_name: string;
+  credential: string | null;
+  specialty: string;
+  city: string;
+  state: string;
+  total_amount: number;
+}
+
+// specialtyCode '' ranks all providers nationally
+export function getTopPaymentRecipients(db: D1Database, specialtyCode: string, year: number, limit = 100): Promise<PaymentRecipient[]> {
+  return cached(`payment-top:${specialtyCode}:${year}:${limit}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT r.rank, r.npi, p.slug, p.first_name, p.last_name, p.credential, p.specialty, p.city, p.state, r.total_amount
+       FROM payment_rankings r JOIN providers p ON p.npi = r.npi
+       WHERE r.specialty_code = ? AND r.year = ? AND r.rank <= ?
+       ORDER BY r.rank`
+    ).bind(specialtyCode, year, limit).all<PaymentRecipient>();
+    return results;
+  });
+}
+
+export interface PaymentSpecialtyStats {
+  specialty_code: string;
+  name: string;
+  slug: string;
+  recipients: number;
+  total_amount: number;
+  provider_count: number;
+}
+
+export function getPaymentSpecialtyStats(db: D1Database, year: number): Promise<PaymentSpecialtyStats[]> {
+  return cached(`payment-specialties:${year}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT ps.specialty_code, s.name, s.slug, ps.recipients, ps.total_amount, s.provider_count
+       FROM payment_specialty_stats ps JOIN specialties s ON s.code = ps.specialty_code
+       WHERE ps.year = ?
+       ORDER BY ps.total_amount DESC`
+    ).bind(year).all<PaymentSpecialtyStats>();
+    return results;
+  });
+}
+
+export function getTopPaymentManufacturers(db: D1Database, year: number, limit = 25): Promise<{ manufacturer: string; recipients: number; total_amount: number }[]> {
+  return cached(`payment-manufacturers:${year}:${limit}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT manufacturer, recipients, total_amount FROM payment_manufacturers
+       WHERE year = ? ORDER BY total_amount DESC LIMIT ?`
+    ).bind(year, limit).all<{ manufacturer: string; recipients: number; total_amount: number }>();
+    return results;
+  });
+}
+
+// --- Related Providers ---
+
+export interface RelatedProvider {
+  npi: string;
+  slug: string;
+  first_name: string;
+  last_name: string;
+  credential: string | null;
+  specialty: string;
+  city: string;
+  state: string;
+}
+
+export async function getRelatedProviders(
+  db: D1Database, specialtyCode: string, state: string, excludeNpi: string, limit = 6
+): Promise<RelatedProvider[]> {
+  // Cache per specialty+state (fetch slightly more, filter excludeNpi in JS)
+  const all = await cached(`related:${specialtyCode}:${state}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT npi, slug, first_name, last_name, credential, specialty, city, state
+       FROM providers
+       WHERE specialty_code = ? AND state = ?
+       ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE
+       LIMIT ?`
+    ).bind(specialtyCode, state, limit + 5).all<RelatedProvider>();
+    return results;
+  });
+  return all.filter(p => p.npi !== excludeNpi).slice(0, limit);
+}
+
+// --- Specialty Stats (for provider detail context) ---
+
+export async function getSpecialtyStats(db: D1Database, specialtyCode: string): Promise<{
+  total_providers: number;
+  states_count: number;
+  prescribers: number | null;
+  avg_claims: number | null;
+  avg_cost: number | null;
+} | null> {
+  // Materialized table — pre-computed during ETL, single PK lookup (<1ms)
+  return db.prepare(
+    'SELECT total_providers, states_count, prescribers, avg_claims, avg_cost FROM specialty_prescriber_stats WHERE specialty_code = ?'
   ).bind(specialtyCode).first();
 }
 
+// --- Prescriber Percentiles (peer benchmarks within specialty and state) ---
+// prescriber_percentiles holds the 1st..99th percentile values of each metric per
+// specialty × state and per specialty nationally (state = ''), built by
+// scripts/build-prescriber-percentiles.mjs. Peer groups under 30 prescribers are omitted.
+
+export type BenchmarkMetric = 'total_claims' | 'cost_per_bene' | 'opioid_rate' | 'antibiotic_claims' | 'brand_share';
+
+export interface PrescriberBenchmark {
+  metric: BenchmarkMetric;
+  value: number;
+  state_percentile: number | null;
+  state_peers: number | null;
+  national_percentile: number | null;
+  national_peers: number | null;
+}
+
+// Same derivations as the ETL, so a provider is placed on the scale it was ranked on
+export function prescriberMetrics(ps: PrescriberSummary): Partial<Record<BenchmarkMetric, number>> {
+  const metrics: Partial<Record<BenchmarkMetric, number>> = {};
+  if (ps.total_claims != null) metrics.total_claims = ps.total_claims;
+  if (ps.total_drug_cost != null && ps.total_beneficiaries) metrics.cost_per_bene = ps.total_drug_cost / ps.total_beneficiaries;
+  if (ps.opioid_prescriber_rate != null) metrics.opioid_rate = ps.opioid_prescriber_rate;
+  if (ps.antibiotic_claims != null) metrics.antibiotic_claims = ps.antibiotic_claims;
+  if (ps.brand_claims != null && ps.total_claims) metrics.brand_share = 100 * ps.brand_claims / ps.total_claims;
+  return metrics;
+}
+
+// Ties count half: when 40% of peers have a 0% opioid rate, a prescriber at 0% sits at the 20th percentile, not the 40th
+function percentileOf(value: number, breakpoints: number[]): number {
+  const below = breakpoints.filter(b => b < value).length;
+  const atOrBelow = breakpoints.filter(b => b <= value).length;
+  return Math.min(99, Math.max(1, Math.round((below + atOrBelow) / 2)));
+}
+
+export async function getPrescriberBenchmarks(
+  db: D1Database, specialtyCode: string, state: string, summary: PrescriberSummary
+): Promise<PrescriberBenchmark[]> {
+  if (!(await hasTable(db, 'prescriber_percentiles'))) return [];
+  const { results } = await db.prepare(
+    `SELECT state, metric, prescribers, breakpoints FROM prescriber_percentiles
+     WHERE specialty_code = ? AND state IN (?, '')`
+  ).bind(specialtyCode, state).all<{ state: string; metric: BenchmarkMetric; prescribers: number; breakpoints: string }>();
+
+  const rows = new Map(results.map(r => [`${r.state}:${r.metric}`, r]));
+  const benchmarks: PrescriberBenchmark[] = [];
+  for (const [metric, value] of Object.entries(prescriberMetrics(summary)) as [BenchmarkMetric, number][]) {
+    const inState = rows.get(`${state}:${metric}`);
+    const national = rows.get(`:${metric}`);
+    if (!inState && !national) continue;
+    benchmarks.push({
+      metric,
+      value,
+      state_percentile: inState ? percentileOf(value, JSON.parse(inState.breakpoints)) : null,
+      state_peers: inState?.prescribers ?? null,
+      national_percentile: national ? percentileOf(value, JSON.parse(national.breakpoints)) : null,
+      national_peers: national?.prescribers ?? null,
+    });
+  }
+  return benchmarks;
+}
+
 // --- Nursing Homes (CMS Five-Star Quality Rating) ---
 
 export interface NursingHome {
@@ -545,6 +1624,10 @@ export async function getNursingHomeBySlug(db: D1Database, slug: string): Promis
   return db.prepare('SELECT * FROM nursing_homes WHERE slug = ?').bind(slug).first<NursingHome>();
 }
 
+export async function getNursingHomeByCcn(db: D1Database, ccn: string): Promise<NursingHome | null> {
+  return db.prepare('SELECT * FROM nursing_homes WHERE ccn = ?').bind(ccn).first<NursingHome>();
+}
+
 export async function getNursingHomesByState(db: D1Database, state: string, limit = 50, offset = 0): Promise<NursingHome[]> {
   const { results } = await db.prepare(
     'SELECT * FROM nursing_homes WHERE state = ? ORDER BY overall_rating DESC, beds DESC LIMIT ? OFFSET ?'
@@ -575,6 +1658,47 @@ export function getNursingHomeStats(db: D1Database): Promise<{ total: number; st
   });
 }
 
+// --- Nursing Home Finder (distance from a ZIP or point) ---
+
+export interface NursingHomeNearFilters {
+  minOverall?: number;
+  minStaffing?: number;
+  minBeds?: number;
+}
+
+export interface NearbyNursingHome extends NursingHome {
+  distance: number;
+}
+
+export async function getNursingHomesNear(
+  db: D1Database, lat: number, lng: number, radiusMiles: number,
+  filters: NursingHomeNearFilters = {}, limit = 50, offset = 0
+): Promise<{ total: number; results: NearbyNursingHome[] }> {
+  // Bounding box on idx_nh_lat_lng, exact haversine + distance sort in JS.
+  // Special Focus Facilities and homes with the abuse icon are never listed.
+  const dLat = radiusMiles / 69;
+  const dLng = radiusMiles / (69 * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  const { results } = await db.prepare(
+    `SELECT * FROM nursing_homes
+     WHERE lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?
+       AND special_focus = 0 AND abuse_icon = 0
+       AND (? = 0 OR overall_rating >= ?)
+       AND (? = 0 OR staffing_rating >= ?)
+       AND (? = 0 OR beds >= ?)`
+  ).bind(
+    lat - dLat, lat + dLat, lng - dLng, lng + dLng,
+    filters.minOverall ?? 0, filters.minOverall ?? 0,
+    filters.minStaffing ?? 0, filters.minStaffing ?? 0,
+    filters.minBeds ?? 0, filters.minBeds ?? 0,
+  ).all<NursingHome>();
+
+  const inRange = results
+    .map(h => ({ ...h, distance: Math.round(haversineMiles(lat, lng, h.lat!, h.lng!) * 10) / 10 }))
+    .filter(h => h.distance <= radiusMiles)
+    .sort((a, b) => a.distance - b.distance || (b.overall_rating ?? 0) - (a.overall_rating ?? 0));
+  return { total: inRange.length, results: inRange.slice(offset, offset + limit) };
+}
+
 export function renderStars(rating: number | null): string {
   if (rating == null) return 'N/A';
   return '★'.repeat(rating) + '☆'.repeat(5 - rating);
@@ -740,6 +1864,651 @@ export function getNationalDeficiencyAvg(
   });
 }
 
+// --- Nursing Home Penalties (itemized fines and payment denials, last 3 years) ---
+
+export interface NursingHomePenalty {
+  ccn: string;
+  penalty_date: string;
+  penalty_type: string;
+  fine_amount: number | null;
+  denial_start_date: string | null;
+  denial_days: number | null;
+}
+
+export async function getNursingHomePenalties(db: D1Database, ccn: string): Promise<NursingHomePenalty[]> {
+  if (!(await hasTable(db, 'nursing_home_penalties'))) return [];
+  const { results } = await db.prepare(
+    `SELECT ccn, penalty_date, penalty_type, fine_amount, denial_start_date, denial_days
+     FROM nursing_home_penalties
+     WHERE ccn = ?
+     ORDER BY penalty_date DESC`
+  ).bind(ccn).all<NursingHomePenalty>();
+  return results;
+}
+
+export interface NursingHomeFine extends NursingHomePenalty {
+  name: string;
+  slug: string;
+  city: string | null;
+}
+
+export async function getLargestFinesByState(db: D1Database, state: string, limit = 10): Promise<NursingHomeFine[]> {
+  if (!(await hasTable(db, 'nursing_home_penalties'))) return [];
+  const { results } = await db.prepare(
+    `SELECT p.ccn, p.penalty_date, p.penalty_type, p.fine_amount, p.denial_start_date, p.denial_days,
+            nh.name, nh.slug, nh.city
+     FROM nursing_home_penalties p
+     JOIN nursing_homes nh ON nh.ccn = p.ccn
+     WHERE p.state = ? AND p.fine_amount > 0 AND p.penalty_date >= date('now', '-3 years')
+     ORDER BY p.fine_amount DESC
+     LIMIT ?`
+  ).bind(state, limit).all<NursingHomeFine>();
+  return results;
+}
+
+// --- Nursing Home Deficiency Citations (one row per cited F-tag) ---
+// Scope/severity letters follow the CMS grid: rows are severity (worst first),
+// columns are scope (isolated, pattern, widespread).
+
+export const SCOPE_LABELS = ['Isolated', 'Pattern', 'Widespread'];
+
+export const SEVERITY_LEVELS = [
+  { label: 'Immediate jeopardy to resident health or safety', letters: ['J', 'K', 'L'] },
+  { label: 'Actual harm that is not immediate jeopardy', letters: ['G', 'H', 'I'] },
+  { label: 'No actual harm with potential for more than minimal harm', letters: ['D', 'E', 'F'] },
+  { label: 'No actual harm with potential for minimal harm', letters: ['A', 'B', 'C'] },
+];
+
+// G and above means at least one resident was actually harmed
+export function isHarmLevel(letter: string | null): boolean {
+  return letter != null && letter >= 'G';
+}
+
+export interface NursingHomeCitation {
+  survey_date: string;
+  ftag: string;
+  description: string | null;
+  category: string | null;
+  scope_severity: string | null;
+  is_standard: number;
+  is_complaint: number;
+  correction_date: string | null;
+}
+
+export async function getNursingHomeCitations(db: D1Database, ccn: string): Promise<NursingHomeCitation[]> {
+  if (!(await hasTable(db, 'nursing_home_citations'))) return [];
+  const { results } = await db.prepare(
+    `SELECT c.survey_date, c.ftag, t.description, t.category, c.scope_severity,
+            c.is_standard, c.is_complaint, c.correction_date
+     FROM nursing_home_citations c
+     LEFT JOIN deficiency_tags t ON t.ftag = c.ftag
+     WHERE c.ccn = ?
+     ORDER BY c.survey_date DESC, c.scope_severity DESC, c.ftag`
+  ).bind(ccn).all<NursingHomeCitation>();
+  return results;
+}
+
+export interface DeficiencyTag {
+  ftag: string;
+  description: string | null;
+  category: string | null;
+  citation_count: number;
+}
+
+export async function getDeficiencyTag(db: D1Database, ftag: string): Promise<DeficiencyTag | null> {
+  if (!(await hasTable(db, 'deficiency_tags'))) return null;
+  return db.prepare('SELECT * FROM deficiency_tags WHERE ftag = ?').bind(ftag).first<DeficiencyTag>();
+}
+
+export function getTopDeficiencyTags(db: D1Database, limit = 25): Promise<DeficiencyTag[]> {
+  return cached(`nh-tags:${limit}`, async () => {
+    if (!(await hasTable(db, 'deficiency_tags'))) return [];
+    const { results } = await db.prepare(
+      'SELECT * FROM deficiency_tags ORDER BY citation_count DESC LIMIT ?'
+    ).bind(limit).all<DeficiencyTag>();
+    return results;
+  });
+}
+
+export interface DeficiencyTagState {
+  ftag: string;
+  state: string;
+  citation_count: number;
+  home_count: number;
+  citations_per_home: number;
+}
+
+// Most cited tags within one state; citations_per_home is over all homes in the state
+export function getTopDeficiencyTagsByState(
+  db: D1Database, state: string, limit = 15
+): Promise<(DeficiencyTagState & Pick<DeficiencyTag, 'description' | 'category'>)[]> {
+  return cached(`nh-tags:${state}:${limit}`, async () => {
+    if (!(await hasTable(db, 'deficiency_tag_states'))) return [];
+    const { results } = await db.prepare(
+      `SELECT ts.ftag, ts.state, ts.citation_count, ts.home_count,
+              ROUND(1.0 * ts.citation_count / s.home_count, 2) as citations_per_home,
+              t.description, t.category
+       FROM deficiency_tag_states ts
+       JOIN deficiency_tags t ON t.ftag = ts.ftag
+       JOIN nursing_home_states s ON s.state = ts.state
+       WHERE ts.state = ?
+       ORDER BY ts.citation_count DESC
+       LIMIT ?`
+    ).bind(state, limit).all<DeficiencyTagState & Pick<DeficiencyTag, 'description' | 'category'>>();
+    return results;
+  });
+}
+
+// States ranked by how often one tag is cited per nursing home
+export async function getDeficiencyTagStates(db: D1Database, ftag: string): Promise<DeficiencyTagState[]> {
+  if (!(await hasTable(db, 'deficiency_tag_states'))) return [];
+  const { results } = await db.prepare(
+    `SELECT ts.ftag, ts.state, ts.citation_count, ts.home_count,
+            ROUND(1.0 * ts.citation_count / s.home_count, 2) as citations_per_home
+     FROM deficiency_tag_states ts
+     JOIN nursing_home_states s ON s.state = ts.state
+     WHERE ts.ftag = ?
+     ORDER BY citations_per_home DESC, ts.citation_count DESC`
+  ).bind(ftag).all<DeficiencyTagState>();
+  return results;
+}
+
+export interface NursingHomeTagCitations {
+  ccn: string;
+  slug: string;
+  name: string;
+  city: string | null;
+  health_rating: number | null;
+  citation_count: number;
+  harm_count: number;
+  worst_scope_severity: string | null;
+  latest_survey_date: string;
+}
+
+// Homes in a state ranked by citations of one tag; ties break on harm-level citations
+export async function getNursingHomesByTagCitations(
+  db: D1Database, state: string, ftag: string, limit = 100
+): Promise<NursingHomeTagCitations[]> {
+  if (!(await hasTable(db, 'nursing_home_citations'))) return [];
+  const { results } = await db.prepare(
+    `SELECT nh.ccn, nh.slug, nh.name, nh.city, nh.health_rating,
+            COUNT(*) as citation_count,
+            SUM(CASE WHEN c.scope_severity >= 'G' THEN 1 ELSE 0 END) as harm_count,
+            MAX(c.scope_severity) as worst_scope_severity,
+            MAX(c.survey_date) as latest_survey_date
+     FROM nursing_home_citations c
+     JOIN nursing_homes nh ON nh.ccn = c.ccn
+     WHERE c.state = ? AND c.ftag = ?
+     GROUP BY c.ccn
+     ORDER BY citation_count DESC, harm_count DESC, nh.name
+     LIMIT ?`
+  ).bind(state, ftag, limit).all<NursingHomeTagCitations>();
+  return results;
+}
+
+export async function getSitemapDeficiencyTagStates(db: D1Database): Promise<{ ftag: string; state: string }[]> {
+  if (!(await hasTable(db, 'deficiency_tag_states'))) return [];
+  const { results } = await db.prepare(
+    'SELECT ftag, state FROM deficiency_tag_states ORDER BY ftag, state'
+  ).all<{ ftag: string; state: string }>();
+  return results;
+}
+
+// --- Nursing Home Comparison ---
+// Comparisons take 2-4 CCNs; the canonical URL lists them in ascending order
+
+export const MAX_COMPARE_NURSING_HOMES = 4;
+
+export function nursingHomeCompareUrl(ccns: string[]): string {
+  return '/nursing-homes/compare/' + [...new Set(ccns.map(c => c.toUpperCase()))].sort().join('-vs-');
+}
+
+export async function getNursingHomesByCcns(db: D1Database, ccns: string[]): Promise<Map<string, NursingHome>> {
+  const { results } = await db.prepare(
+    'SELECT * FROM nursing_homes WHERE ccn IN (SELECT value FROM json_each(?))'
+  ).bind(JSON.stringify(ccns)).all<NursingHome>();
+  return new Map(results.map(nh => [nh.ccn, nh]));
+}
+
+// Other homes in the same city, largest first — the default comparison set for a detail page
+export async function getSameCityNursingHomes(
+  db: D1Database, city: string, state: string, excludeCcn: string, limit = 3
+): Promise<Pick<NursingHome, 'ccn' | 'slug' | 'name' | 'overall_rating'>[]> {
+  const { results } = await db.prepare(
+    `SELECT ccn, slug, name, overall_rating FROM nursing_homes
+     WHERE state = ? AND city = ? AND ccn != ?
+     ORDER BY COALESCE(avg_residents, beds) DESC
+     LIMIT ?`
+  ).bind(state, city, excludeCcn, limit).all<Pick<NursingHome, 'ccn' | 'slug' | 'name' | 'overall_rating'>>();
+  return results;
+}
+
+export interface NursingHomeComparePair {
+  ccn_a: string;
+  ccn_b: string;
+  city: string;
+  state: string;
+}
+
+// Pairs among the three busiest homes of every city with more than one home (for the sitemap)
+export function getNursingHomeComparePairs(db: D1Database): Promise<NursingHomeComparePair[]> {
+  return cached('nh-compare-pairs', async () => {
+    const { results } = await db.prepare(
+      `WITH ranked AS (
+         SELECT ccn, city, state,
+                ROW_NUMBER() OVER (PARTITION BY state, city ORDER BY COALESCE(avg_residents, beds) DESC, ccn) AS rn
+         FROM nursing_homes WHERE city IS NOT NULL
+       )
+       SELECT a.ccn AS ccn_a, b.ccn AS ccn_b, a.city, a.state
+       FROM ranked a JOIN ranked b ON b.state = a.state AND b.city = a.city AND b.ccn > a.ccn
+       WHERE a.rn <= 3 AND b.rn <= 3
+       ORDER BY a.state, a.city, a.ccn, b.ccn`
+    ).all<NursingHomeComparePair>();
+    return results;
+  });
+}
+
+// --- Hospitals (CMS Hospital General Information + Overall Star Rating) ---
+
+export interface Hospital {
+  ccn: string;
+  slug: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  state: string;
+  zip: string | null;
+  phone: string | null;
+  county: string | null;
+  hospital_type: string | null;
+  ownership: string | null;
+  emergency_services: number;
+  birthing_friendly: number;
+  overall_rating: number | null;
+  mort_measures: number | null;
+  mort_better: number | null;
+  mort_worse: number | null;
+  safety_measures: number | null;
+  safety_better: number | null;
+  safety_worse: number | null;
+  readm_measures: number | null;
+  readm_better: number | null;
+  readm_worse: number | null;
+  pt_exp_measures: number | null;
+  te_measures: number | null;
+  measures_better: number;
+  measures_worse: number;
+}
+
+export interface HospitalState {
+  state: string;
+  hospital_count: number;
+  rated_count: number;
+  emergency_count: number;
+  avg_rating: number | null;
+}
+
+export async function getHospitalBySlug(db: D1Database, slug: string): Promise<Hospital | null> {
+  return db.prepare('SELECT * FROM hospitals WHERE slug = ?').bind(slug).first<Hospital>();
+}
+
+export async function getHospitalsByState(db: D1Database, state: string, limit = 50, offset = 0): Promise<Hospital[]> {
+  const { results } = await db.prepare(
+    'SELECT * FROM hospitals WHERE state = ? ORDER BY overall_rating DESC, measures_better DESC LIMIT ? OFFSET ?'
+  ).bind(state, limit, offset).all<Hospital>();
+  return results;
+}
+
+export async function getHospitalCountByState(db: D1Database, state: string): Promise<number> {
+  const row = await db.prepare('SELECT hospital_count FROM hospital_states WHERE state = ?').bind(state).first<{ hospital_count: number }>();
+  return row?.hospital_count ?? 0;
+}
+
+export function getAllHospitalStates(db: D1Database): Promise<HospitalState[]> {
+  return cached('hospital-states', async () => {
+    const { results } = await db.prepare(
+      'SELECT * FROM hospital_states ORDER BY hospital_count DESC'
+    ).all<HospitalState>();
+    return results;
+  });
+}
+
+export function getHospitalStats(db: D1Database): Promise<{ total: number; states: number; rated: number; avg_rating: number }> {
+  return cached('hospital-stats', async () => {
+    const row = await db.prepare(
+      `SELECT COUNT(*) as total, COUNT(DISTINCT state) as states, COUNT(overall_rating) as rated,
+              ROUND(AVG(overall_rating), 1) as avg_rating
+       FROM hospitals`
+    ).first<{ total: number; states: number; rated: number; avg_rating: number }>();
+    return row ?? { total: 0, states: 0, rated: 0, avg_rating: 0 };
+  });
+}
+
+export async function getSitemapHospitalSlugs(db: D1Database): Promise<string[]> {
+  const { results } = await db.prepare('SELECT slug FROM hospitals ORDER BY ccn').all<{ slug: string }>();
+  return results.map(r => r.slug);
+}
+
+// --- Hospital Star Rating Rankings ---
+// Ties within a star rating break on the number of mortality, safety and
+// readmission measures CMS scores better than the national rate.
+
+export function getHospitalsByRating(db: D1Database, limit = 100): Promise<Hospital[]> {
+  return cached(`hospital-rankings:${limit}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT * FROM hospitals
+       WHERE overall_rating IS NOT NULL
+       ORDER BY overall_rating DESC, measures_better DESC, measures_worse ASC
+       LIMIT ?`
+    ).bind(limit).all<Hospital>();
+    return results;
+  });
+}
+
+export async function getHospitalRankingsByState(db: D1Database, state: string, limit = 100): Promise<Hospital[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM hospitals
+     WHERE state = ? AND overall_rating IS NOT NULL
+     ORDER BY overall_rating DESC, measures_better DESC, measures_worse ASC
+     LIMIT ?`
+  ).bind(state, limit).all<Hospital>();
+  return results;
+}
+
+export interface HospitalRatingSummary {
+  state: string;
+  rated_count: number;
+  avg_rating: number;
+  pct_4plus: number;
+  five_star: number;
+}
+
+export function getHospitalRatingSummaryByState(db: D1Database): Promise<HospitalRatingSummary[]> {
+  return cached('hospital-rating-summary', async () => {
+    const { results } = await db.prepare(
+      `SELECT
+         state,
+         COUNT(*) as rated_count,
+         ROUND(AVG(overall_rating), 1) as avg_rating,
+         ROUND(100.0 * SUM(CASE WHEN overall_rating >= 4 THEN 1 ELSE 0 END) / COUNT(*), 1) as pct_4plus,
+         SUM(CASE WHEN overall_rating = 5 THEN 1 ELSE 0 END) as five_star
+       FROM hospitals
+       WHERE overall_rating IS NOT NULL
+       GROUP BY state
+       ORDER BY avg_rating DESC`
+    ).all<HospitalRatingSummary>();
+    return results;
+  });
+}
+
+export function getNationalHospitalRatingAvg(db: D1Database): Promise<{ avg_rating: number; pct_4plus: number }> {
+  return cached('hospital-national-rating', async () => {
+    const row = await db.prepare(
+      `SELECT ROUND(AVG(overall_rating), 1) as avg_rating,
+              ROUND(100.0 * SUM(CASE WHEN overall_rating >= 4 THEN 1 ELSE 0 END) / COUNT(*), 1) as pct_4plus
+       FROM hospitals WHERE overall_rating IS NOT NULL`
+    ).first<{ avg_rating: number; pct_4plus: number }>();
+    return row ?? { avg_rating: 0, pct_4plus: 0 };
+  });
+}
+
+// --- Organizations (NPPES Entity Type 2: clinics, group practices, pharmacies, labs) ---
+// Listing counts come from the organization_* summary tables built by the ETL.
+
+export interface Organization {
+  npi: string;
+  name: string;
+  other_name: string | null;
+  taxonomy: string;
+  taxonomy_code: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string | null;
+  address_line1: string | null;
+  enumeration_date: string | null;
+  last_updated: string | null;
+  is_subpart: number;
+  parent_name: string | null;
+  // Authorized official, as published by NPPES
+  official_prefix: string | null;
+  official_first_name: string | null;
+  official_middle_name: string | null;
+  official_last_name: string | null;
+  official_suffix: string | null;
+  official_credential: string | null;
+  official_title: string | null;
+  official_phone: string | null;
+  slug: string;
+}
+
+export type OrganizationListing = Pick<Organization, 'npi' | 'slug' | 'name' | 'other_name' | 'taxonomy' | 'city' | 'state' | 'zip' | 'phone'>;
+
+export interface OrganizationType {
+  code: string;
+  name: string;
+  category: string | null;
+  slug: string;
+  org_count: number;
+}
+
+export interface OrganizationState {
+  state: string;
+  org_count: number;
+  type_count: number;
+}
+
+export interface OrganizationCity {
+  id: number;
+  city: string;
+  state: string;
+  slug: string;
+  org_count: number;
+}
+
+const ORG_LISTING_COLUMNS = 'npi, slug, name, other_name, taxonomy, city, state, zip, phone';
+
+export function formatOfficialName(org: Organization): string | null {
+  const name = [org.official_prefix, org.official_first_name, org.official_middle_name, org.official_last_name, org.official_suffix]
+    .filter(Boolean).join(' ');
+  if (!name) return null;
+  return org.official_credential ? `${name}, ${org.official_credential}` : name;
+}
+
+export async function getOrganizationBySlug(db: D1Database, slug: string): Promise<Organization | null> {
+  return db.prepare('SELECT * FROM organizations WHERE slug = ?').bind(slug).first<Organization>();
+}
+
+export async function getOrganizationByNpi(db: D1Database, npi: string): Promise<Organization | null> {
+  return db.prepare('SELECT * FROM organizations WHERE npi = ?').bind(npi).first<Organization>();
+}
+
+export async function getOrganizationsByState(
+  db: D1Database, state: string, limit = 50, offset = 0
+): Promise<OrganizationListing[]> {
+  const { results } = await db.prepare(
+    `SELECT ${ORG_LISTING_COLUMNS} FROM organizations WHERE state = ? ORDER BY name COLLATE NOCASE LIMIT ? OFFSET ?`
+  ).bind(state, limit, offset).all<OrganizationListing>();
+  return results;
+}
+
+export async function getOrganizationsByCity(
+  db: D1Database, city: string, state: string, limit = 50, offset = 0
+): Promise<OrganizationListing[]> {
+  const { results } = await db.prepare(
+    `SELECT ${ORG_LISTING_COLUMNS} FROM organizations WHERE city = ? AND state = ? ORDER BY name COLLATE NOCASE LIMIT ? OFFSET ?`
+  ).bind(city, state, limit, offset).all<OrganizationListing>();
+  return results;
+}
+
+export async function getOrganizationsByTypeAndState(
+  db: D1Database, taxonomyCode: string, state: string, limit = 50, offset = 0
+): Promise<OrganizationListing[]> {
+  const { results } = await db.prepare(
+    `SELECT ${ORG_LISTING_COLUMNS} FROM organizations WHERE taxonomy_code = ? AND state = ? ORDER BY name COLLATE NOCASE LIMIT ? OFFSET ?`
+  ).bind(taxonomyCode, state, limit, offset).all<OrganizationListing>();
+  return results;
+}
+
+export async function getRelatedOrganizations(
+  db: D1Database, taxonomyCode: string, city: string, state: string, excludeNpi: string, limit = 6
+): Promise<OrganizationListing[]> {
+  const { results } = await db.prepare(
+    `SELECT ${ORG_LISTING_COLUMNS} FROM organizations
+     WHERE taxonomy_code = ? AND state = ? AND city = ? AND npi != ?
+     ORDER BY name COLLATE NOCASE LIMIT ?`
+  ).bind(taxonomyCode, state, city, excludeNpi, limit).all<OrganizationListing>();
+  return results;
+}
+
+export function getAllOrganizationStates(db: D1Database): Promise<OrganizationState[]> {
+  return cached('org-states', async () => {
+    const { results } = await db.prepare(
+      'SELECT * FROM organization_states ORDER BY org_count DESC'
+    ).all<OrganizationState>();
+    return results;
+  });
+}
+
+export function getOrganizationTypes(db: D1Database): Promise<OrganizationType[]> {
+  return cached('org-types', async () => {
+    const { results } = await db.prepare(
+      'SELECT * FROM organization_types ORDER BY org_count DESC'
+    ).all<OrganizationType>();
+    return results;
+  });
+}
+
+export async function getOrganizationTypeBySlug(db: D1Database, slug: string): Promise<OrganizationType | null> {
+  return db.prepare('SELECT * FROM organization_types WHERE slug = ?').bind(slug).first<OrganizationType>();
+}
+
+export function getOrganizationTypeStates(
+  db: D1Database, taxonomyCode: string
+): Promise<{ state: string; org_count: number }[]> {
+  return cached(`org-type-states:${taxonomyCode}`, async () => {
+    const { results } = await db.prepare(
+      'SELECT state, org_count FROM organization_type_states WHERE taxonomy_code = ? ORDER BY org_count DESC'
+    ).bind(taxonomyCode).all<{ state: string; org_count: number }>();
+    return results;
+  });
+}
+
+export async function getOrganizationCountByTypeAndState(db: D1Database, taxonomyCode: string, state: string): Promise<number> {
+  const row = await db.prepare(
+    'SELECT org_count FROM organization_type_states WHERE taxonomy_code = ? AND state = ?'
+  ).bind(taxonomyCode, state).first<{ org_count: number }>();
+  return row?.org_count ?? 0;
+}
+
+export function getOrganizationTypesByState(
+  db: D1Database, state: string, limit = 20
+): Promise<(OrganizationType & { state_count: number })[]> {
+  return cached(`org-state-types:${state}:${limit}`, async () => {
+    const { results } = await db.prepare(
+      `SELECT t.*, ts.org_count AS state_count
+       FROM organization_type_states ts
+       JOIN organization_types t ON t.code = ts.taxonomy_code
+       WHERE ts.state = ?
+       ORDER BY ts.org_count DESC LIMIT ?`
+    ).bind(state, limit).all<OrganizationType & { state_count: number }>();
+    return results;
+  });
+}
+
+export function getOrganizationCitiesByState(db: D1Database, state: string, limit = 50): Promise<OrganizationCity[]> {
+  return cached(`org-cities:${state}:${limit}`, async () => {
+    const { results } = await db.prepare(
+      'SELECT * FROM organization_cities WHERE state = ? ORDER BY org_count DESC LIMIT ?'
+    ).bind(state, limit).all<OrganizationCity>();
+    return results;
+  });
+}
+
+export async function getOrganizationCityBySlug(db: D1Database, state: string, slug: string): Promise<OrganizationCity | null> {
+  return db.prepare('SELECT * FROM organization_cities WHERE state = ? AND slug = ?').bind(state, slug).first<OrganizationCity>();
+}
+
+export async function getOrganizationCity(db: D1Database, city: string, state: string): Promise<OrganizationCity | null> {
+  return db.prepare('SELECT * FROM organization_cities WHERE city = ? AND state = ?').bind(city, state).first<OrganizationCity>();
+}
+
+// Organization taxonomy codes may be Non-Individual (organization_types) or
+// Individual (specialties); slot codes outside both keep a null name
+export async function getOrganizationTaxonomies(
+  db: D1Database, npi: string
+): Promise<(Omit<ProviderTaxonomy, 'slug'> & { type_slug: string | null })[]> {
+  const { results } = await db.prepare(
+    `SELECT t.slot, t.taxonomy_code, t.is_primary, t.license_state, COALESCE(ot.name, s.name) AS name, ot.slug AS type_slug
+     FROM provider_taxonomies t
+     LEFT JOIN organization_types ot ON ot.code = t.taxonomy_code
+     LEFT JOIN specialties s ON s.code = t.taxonomy_code
+     WHERE t.npi = ? ORDER BY t.slot`
+  ).bind(npi).all<Omit<ProviderTaxonomy, 'slug'> & { type_slug: string | null }>();
+  return results;
+}
+
+// Same MATCH syntax as searchProviders, against organizations_fts
+// bm25 weights: npi (unindexed), name, other_name, taxonomy, city, zip
+export async function searchOrganizations(
+  db: D1Database, query: string, limit = 20, state?: string
+): Promise<Organization[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  if (/^\d{10}$/.test(trimmed)) {
+    const result = await getOrganizationByNpi(db, trimmed);
+    return result && (!state || result.state === state) ? [result] : [];
+  }
+  const match = buildFtsQuery(trimmed);
+  if (!match) return [];
+  const { results } = await db.prepare(`
+    SELECT o.* FROM (
+      SELECT npi, bm25(organizations_fts, 0, 8.0, 6.0, 3.0, 2.0, 2.0) AS score
+      FROM organizations_fts
+      WHERE organizations_fts MATCH ? ${state ? 'AND state = ?' : ''}
+      ORDER BY score
+      LIMIT ?
+    ) f
+    JOIN organizations o ON o.npi = f.npi
+    ORDER BY f.score
+  `).bind(match, ...(state ? [state] : []), limit).all<Organization>();
+  return results;
+}
+
+// City and type×state listings for the organization listings sitemap
+export async function getSitemapOrganizationListings(
+  db: D1Database, minCount = 5
+): Promise<{ cities: { state: string; slug: string }[]; typeStates: { slug: string; state: string }[] }> {
+  const [{ results: cities }, { results: typeStates }] = await Promise.all([
+    db.prepare(
+      'SELECT state, slug FROM organization_cities WHERE org_count >= ? ORDER BY org_count DESC'
+    ).bind(minCount).all<{ state: string; slug: string }>(),
+    db.prepare(
+      `SELECT t.slug, ts.state FROM organization_type_states ts
+       JOIN organization_types t ON t.code = ts.taxonomy_code
+       WHERE ts.org_count >= ? ORDER BY ts.org_count DESC`
+    ).bind(minCount).all<{ slug: string; state: string }>(),
+  ]);
+  return { cities, typeStates };
+}
+
+export async function getOrganizationSitemapPageBoundary(db: D1Database, page: number): Promise<string | null> {
+  const row = await db.prepare('SELECT start_npi FROM organization_sitemap_pages WHERE page = ?').bind(page).first<{ start_npi: string }>();
+  return row?.start_npi ?? null;
+}
+
+export async function getSitemapOrganizationSlugs(db: D1Database, startNpi: string, limit = 50000): Promise<string[]> {
+  const { results } = await db.prepare(
+    'SELECT slug FROM organizations WHERE npi >= ? ORDER BY npi LIMIT ?'
+  ).bind(startNpi, limit).all<{ slug: string }>();
+  return results.map(r => r.slug);
+}
+
+export async function getOrganizationSitemapPageCount(db: D1Database): Promise<number> {
+  const row = await db.prepare('SELECT MAX(page) as max_page FROM organization_sitemap_pages').first<{ max_page: number }>();
+  return row?.max_page ?? 0;
+}
+
 export async function warmQueryCache(db: D1Database): Promise<number> {
   const start = Date.now();
   const states = await getAllStates(db);
@@ -758,15 +2527,51 @@ export async function warmQueryCache(db: D1Database): Promise<number> {
     getNationalDeficiencyAvg(db),
     getNursingHomesByStaffing(db),
     getNursingHomesByDeficiencies(db),
+    getNursingHomeComparePairs(db),
+    getAllOrganizationStates(db),
+    getOrganizationTypes(db),
     ...states.map(s => Promise.all([
       getCitiesByState(db, s.abbr),
+      getCountiesByState(db, s.abbr),
       getPrescriberStatsByState(db, s.abbr),
+      getOrganizationCitiesByState(db, s.abbr),
+      getOrganizationTypesByState(db, s.abbr),
     ])),
     ...topSpecialties.map(sp => Promise.all([
       getSpecialtyStates(db, sp.code),
       getTopCitiesBySpecialty(db, sp.code),
     ])),
   ]);
+
+  // Tables loaded by the standalone import scripts can be missing (e.g. right after a
+  // full build-db run), so each of those subsystems warms on its own
+  const optional: [string, () => Promise<unknown>][] = [
+    ['Part D drugs', () => Promise.all([getTopDrugs(db, 'claims'), getTopDrugs(db, 'cost')])],
+    ['Part B services', () => Promise.all(topSpecialties.map(sp => getSpecialtyServices(db, sp.code)))],
+    ['deficiency citations', () => getTopDeficiencyTags(db)],
+    ['hospitals', () => Promise.all([
+      getAllHospitalStates(db),
+      getHospitalStats(db),
+      getHospitalsByRating(db),
+      getHospitalRatingSummaryByState(db),
+      getNationalHospitalRatingAvg(db),
+    ])],
+    ['exclusions', () => getExclusionStates(db)],
+    ['county access', () => Promise.all(states.map(s => getCountyAccessByState(db, s.abbr)))],
+    ['Open Payments', async () => {
+      const [paymentYear] = await getPaymentYears(db);
+      if (!paymentYear) return;
+      await Promise.all([
+        getTopPaymentRecipients(db, '', paymentYear),
+        getPaymentSpecialtyStats(db, paymentYear),
+        getTopPaymentManufacturers(db, paymentYear),
+      ]);
+    }],
+  ];
+  const settled = await Promise.allSettled(optional.map(([, warm]) => warm()));
+  settled.forEach((r, i) => {
+    if (r.status === 'rejected') console.warn(`[cache] Skipped ${optional[i][0]}: ${r.reason instanceof Error ? r.reason.message : r.reason}`);
+  });
   console.log(`[cache] Warmed ${queryCache.size} queries in ${Date.now() - start}ms`);
   return queryCache.size;
 }
@@ -0,0 +1,231 @@
+// FHIR R4 mapping for the read-only directory endpoints (/api/fhir/r4/*)
+// One NPPES provider row yields three resources that share the NPI as their id:
+//   Practitioner/{npi}      — the person
+//   PractitionerRole/{npi}  — their primary NUCC taxonomy, linking the other two
+//   Location/{npi}          — their practice address
+
+import {
+  getProviderByNpi, searchProvidersByName, getProvidersBySpecialtyAndStateAfter, getProviderCountBySpecialtyAndState,
+  type Provider, type ProviderListing, type SearchFilters,
+} from './db';
+import { encodeCursor, decodeCursor } from './api';
+
+export const FHIR_BASE = '/api/fhir/r4';
+const ORIGIN = 'https://plaindoctor.com';
+export const NPI_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+export const NUCC_SYSTEM = 'http://nucc.org/provider-taxonomy';
+
+export const FHIR_RESOURCE_TYPES = ['Practitioner', 'PractitionerRole', 'Location'] as const;
+export type FhirResourceType = typeof FHIR_RESOURCE_TYPES[number];
+
+export function isFhirResourceType(t: string | undefined): t is FhirResourceType {
+  return (FHIR_RESOURCE_TYPES as readonly string[]).includes(t ?? '');
+}
+
+// Listing queries don't select every column; the mappers skip what's missing
+export type FhirSourceRow = ProviderListing & Partial<Pick<Provider, 'gender' | 'address_line1'>>;
+
+const FHIR_HEADERS = {
+  'Content-Type': 'application/fhir+json; charset=utf-8',
+  'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+  'Access-Control-Allow-Origin': '*',
+};
+
+export function fhirResponse(resource: unknown, status = 200): Response {
+  return new Response(JSON.stringify(resource), {
+    status,
+    headers: status >= 400 ? { ...FHIR_HEADERS, 'Cache-Control': 'public, max-age=60' } : FHIR_HEADERS,
+  });
+}
+
+// Errors are OperationOutcome resources; `code` is from the FHIR issue-type value set
+export function operationOutcome(status: number, code: string, diagnostics: string): Response {
+  return fhirResponse({
+    resourceType: 'OperationOutcome',
+    issue: [{ severity: 'error', code, diagnostics }],
+  }, status);
+}
+
+function displayName(p: FhirSourceRow): string {
+  const name = `${p.first_name} ${p.last_name}`;
+  return p.credential ? `${name}, ${p.credential}` : name;
+}
+
+function telecom(p: FhirSourceRow) {
+  return p.phone ? [{ system: 'phone', value: p.phone.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3'), use: 'work' }] : undefined;
+}
+
+function address(p: FhirSourceRow) {
+  return {
+    use: 'work',
+    type: 'physical',
+    ...(p.address_line1 && { line: [p.address_line1] }),
+    city: p.city,
+    state: p.state,
+    postalCode: p.zip,
+    country: 'US',
+  };
+}
+
+const FHIR_GENDER: Record<string, string> = { M: 'male', F: 'female' };
+
+export function toPractitioner(p: FhirSourceRow) {
+  return {
+    resourceType: 'Practitioner',
+    id: p.npi,
+    identifier: [{ system: NPI_SYSTEM, value: p.npi }],
+    active: true,
+    name: [{
+      use: 'official',
+      text: displayName(p),
+      family: p.last_name,
+      given: [p.first_name],
+      ...(p.credential && { suffix: [p.credential] }),
+    }],
+    telecom: telecom(p),
+    address: [address(p)],
+    ...(p.gender !== undefined && { gender: FHIR_GENDER[p.gender ?? ''] ?? 'unknown' }),
+    ...(p.credential && { qualification: [{ code: { text: p.credential } }] }),
+  };
+}
+
+export function toPractitionerRole(p: FhirSourceRow) {
+  return {
+    resourceType: 'PractitionerRole',
+    id: p.npi,
+    identifier: [{ system: NPI_SYSTEM, value: p.npi }],
+    active: true,
+    practitioner: { reference: `Practitioner/${p.npi}`, display: displayName(p) },
+    specialty: [{
+      coding: [{ system: NUCC_SYSTEM, code: p.specialty_code, display: p.specialty }],
+      text: p.specialty,
+    }],
+    location: [{ reference: `Location/${p.npi}` }],
+    telecom: telecom(p),
+  };
+}
+
+export function toLocation(p: FhirSourceRow, position?: { lat: number; lng: number } | null) {
+  return {
+    resourceType: 'Location',
+    id: p.npi,
+    status: 'active',
+    mode: 'instance',
+    name: `${displayName(p)} — practice location`,
+    telecom: telecom(p),
+    address: address(p),
+    // ZIP centroid only: NPPES has no geocoded practice addresses
+    ...(position && { position: { latitude: position.lat, longitude: position.lng } }),
+  };
+}
+
+export function toResource(type: FhirResourceType, p: FhirSourceRow) {
+  if (type === 'Practitioner') return toPractitioner(p);
+  if (type === 'PractitionerRole') return toPractitionerRole(p);
+  return toLocation(p);
+}
+
+// searchset Bundle; `include` carries _include'd resources (search.mode = include)
+export function searchBundle(
+  resources: { resourceType: string; id: string }[],
+  links: { self: string; next?: string | null; previous?: string | null },
+  total?: number, include: { resourceType: string; id: string }[] = []
+) {
+  const entry = (r: { resourceType: string; id: string }, mode: 'match' | 'include') => ({
+    fullUrl: `${ORIGIN}${FHIR_BASE}/${r.resourceType}/${r.id}`,
+    resource: r,
+    search: { mode },
+  });
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    ...(total !== undefined && { total }),
+    link: [
+      { relation: 'self', url: ORIGIN + links.self },
+      ...(links.previous ? [{ relation: 'previous', url: ORIGIN + links.previous }] : []),
+      ...(links.next ? [{ relation: 'next', url: ORIGIN + links.next }] : []),
+    ],
+    entry: [...resources.map(r => entry(r, 'match')), ...include.map(r => entry(r, 'include'))],
+  };
+}
+
+// --- Search ---
+
+const DEFAULT_COUNT = 20;
+const MAX_COUNT = 100;
+
+// Shared by GET [type]?..., GET [type]/_search and POST [type]/_search (form body).
+// name → FTS on first/last name (offset paging); without a name the query must be
+// specialty + address-state, served off the sort index with keyset paging.
+export async function runFhirSearch(
+  db: D1Database, type: FhirResourceType, params: URLSearchParams
+): Promise<Response> {
+  const count = Math.min(Math.max(parseInt(params.get('_count') || '') || DEFAULT_COUNT, 1), MAX_COUNT);
+  const name = params.get('name')?.trim() || '';
+  const state = params.get('address-state')?.trim().toUpperCase() || '';
+  // token search: "code" or "system|code"
+  const specialtyToken = params.get('specialty')?.trim() || '';
+  const [system, code] = specialtyToken.includes('|') ? specialtyToken.split('|', 2) : ['', specialtyToken];
+  if (system && system !== NUCC_SYSTEM) {
+    return operationOutcome(400, 'not-supported', `specialty system must be ${NUCC_SYSTEM}`);
+  }
+  const includes = params.getAll('_include');
+
+  const query = new URLSearchParams();
+  for (const key of ['name', 'address-state', 'specialty', '_id', 'identifier']) {
+    const v = params.get(key);
+    if (v) query.set(key, v);
+  }
+  for (const inc of includes) query.append('_include', inc);
+  query.set('_count', String(count));
+  const linkFor = (extra: Record<string, string>) => {
+    const qs = new URLSearchParams(query);
+    for (const [k, v] of Object.entries(extra)) qs.set(k, v);
+    return `${FHIR_BASE}/${type}?${qs}`;
+  };
+
+  let rows: FhirSourceRow[] = [];
+  let total: number | undefined;
+  let links: { self: string; next?: string | null; previous?: string | null };
+
+  const idParam = params.get('_id') || params.get('identifier')?.replace(`${NPI_SYSTEM}|`, '') || '';
+  if (idParam) {
+    const p = /^\d{10}$/.test(idParam) ? await getProviderByNpi(db, idParam) : null;
+    rows = p ? [p] : [];
+    total = rows.length;
+    links = { self: linkFor({}) };
+  } else if (name) {
+    const offset = Math.max(parseInt(params.get('_offset') || '0') || 0, 0);
+    const filters: SearchFilters = {};
+    if (state) filters.state = state;
+    if (code) filters.specialty_code = code;
+    rows = await searchProvidersByName(db, name, count, filters, offset);
+    links = {
+      self: linkFor(offset ? { _offset: String(offset) } : {}),
+      previous: offset > 0 ? linkFor({ _offset: String(Math.max(offset - count, 0)) }) : null,
+      next: rows.length === count ? linkFor({ _offset: String(offset + count) }) : null,
+    };
+  } else if (code && state) {
+    const cursorParam = params.get('_cursor');
+    const after = decodeCursor(cursorParam);
+    if (after === undefined) return operationOutcome(400, 'invalid', '_cursor is not valid; follow the Bundle next link');
+    [rows, total] = await Promise.all([
+      getProvidersBySpecialtyAndStateAfter(db, code, state, after, count),
+      getProviderCountBySpecialtyAndState(db, code, state),
+    ]);
+    links = {
+      self: linkFor(cursorParam ? { _cursor: cursorParam } : {}),
+      next: rows.length === count ? linkFor({ _cursor: encodeCursor(rows[rows.length - 1]) }) : null,
+    };
+  } else {
+    return operationOutcome(400, 'too-costly', 'Search requires name, _id/identifier, or specialty together with address-state');
+  }
+
+  const included: { resourceType: string; id: string }[] = [];
+  if (type === 'PractitionerRole') {
+    if (includes.includes('PractitionerRole:practitioner')) included.push(...rows.map(toPractitioner));
+    if (includes.includes('PractitionerRole:location')) included.push(...rows.map(r => toLocation(r)));
+  }
+
+  return fhirResponse(searchBundle(rows.map(r => toResource(type, r)), links, total, included));
+}
@@ -146,6 +146,21 @@ function getEdgeTtl(p: string): number {
   return 3600;
 }
 
+// --- Cross-site form POST check ---
+// Astro's checkOrigin is all-or-nothing, so it is off in astro.config.mjs and applied
+// here with the same rules. The public APIs are exempt: they are unauthenticated, set
+// no cookies, and take form/CSV POSTs from scripts that send no Origin header.
+const FORM_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+const ORIGIN_EXEMPT_PREFIXES = ['/api/v1/', '/api/fhir/'];
+
+function isCrossSiteForm(request: Request, url: URL): boolean {
+  if (request.method === 'GET' || request.method === 'HEAD' || request.method === 'OPTIONS') return false;
+  if (ORIGIN_EXEMPT_PREFIXES.some(prefix => url.pathname.startsWith(prefix))) return false;
+  if (request.headers.get('origin') === url.origin) return false;
+  const type = request.headers.get('content-type');
+  return type == null || FORM_CONTENT_TYPES.some(t => type.toLowerCase().includes(t));
+}
+
 export const onRequest = defineMiddleware(async (context, next) => {
   const path = context.url.pathname;
   (context.locals as any).runtime = { env: { DB: getDb() } };
@@ -157,6 +172,10 @@ export const onRequest = defineMiddleware(async (context, next) => {
   if (path.charCodeAt(1) === 95) return next(); // starts with '/_' (_astro, _cluster)
   if (path.startsWith('/fav')) return next();
 
+  if (isCrossSiteForm(context.request, context.url)) {
+    return new Response(`Cross-site ${context.request.method} form submissions are forbidden`, { status: 403 });
+  }
+
   // No blocking — requests always proceed. Cache hits use cache, misses go to DB.
 
   if (context.request.method === 'GET') {
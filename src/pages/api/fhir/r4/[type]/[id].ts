@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import { getProviderByNpi, getZipCentroid } from '../../../../../lib/db';
+import {
+  isFhirResourceType, operationOutcome, runFhirSearch, fhirResponse,
+  toPractitioner, toPractitionerRole, toLocation,
+} from '../../../../../lib/fhir';
+
+// GET /api/fhir/r4/{type}/{npi} — read
+// GET|POST /api/fhir/r4/{type}/_search — search (POST takes form-encoded params)
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const type = params.type;
+  if (!isFhirResourceType(type)) {
+    return operationOutcome(404, 'not-supported', `Resource type ${type} is not supported`);
+  }
+  const db = (locals as any).runtime.env.DB;
+  if (params.id === '_search') return runFhirSearch(db, type, url.searchParams);
+
+  const npi = params.id || '';
+  const provider = /^\d{10}$/.test(npi) ? await getProviderByNpi(db, npi) : null;
+  if (!provider) return operationOutcome(404, 'not-found', `${type}/${npi} is not known`);
+
+  if (type === 'Practitioner') return fhirResponse(toPractitioner(provider));
+  if (type === 'PractitionerRole') return fhirResponse(toPractitionerRole(provider));
+  return fhirResponse(toLocation(provider, await getZipCentroid(db, provider.zip)));
+};
+
+export const POST: APIRoute = async ({ params, request, url, locals }) => {
+  const type = params.type;
+  if (!isFhirResourceType(type) || params.id !== '_search') {
+    return operationOutcome(405, 'not-supported', 'This server is read-only; POST is only accepted for _search');
+  }
+  const db = (locals as any).runtime.env.DB;
+  // FHIR allows search params in both the URL and the form body
+  const form = new URLSearchParams(await request.text());
+  for (const [k, v] of url.searchParams) if (!form.has(k)) form.append(k, v);
+  return runFhirSearch(db, type, form);
+};
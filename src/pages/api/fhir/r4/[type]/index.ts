@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+import { isFhirResourceType, operationOutcome, runFhirSearch } from '../../../../../lib/fhir';
+
+// GET /api/fhir/r4/{Practitioner|PractitionerRole|Location}?name=&address-state=&specialty=
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  if (!isFhirResourceType(params.type)) {
+    return operationOutcome(404, 'not-supported', `Resource type ${params.type} is not supported`);
+  }
+  const db = (locals as any).runtime.env.DB;
+  return runFhirSearch(db, params.type, url.searchParams);
+};
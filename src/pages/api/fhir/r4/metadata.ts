@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { fhirResponse, FHIR_BASE, FHIR_RESOURCE_TYPES, NUCC_SYSTEM } from '../../../../lib/fhir';
+
+const SEARCH_PARAMS = [
+  { name: '_id', type: 'token', documentation: 'NPI' },
+  { name: 'identifier', type: 'token', documentation: 'http://hl7.org/fhir/sid/us-npi|{npi}' },
+  { name: 'name', type: 'string', documentation: 'Prefix match on each word of first or last name' },
+  { name: 'address-state', type: 'string', documentation: 'Two-letter state of the practice address' },
+  { name: 'specialty', type: 'token', documentation: `${NUCC_SYSTEM}|{code}; without name, requires address-state` },
+];
+
+// GET /api/fhir/r4/metadata — CapabilityStatement
+export const GET: APIRoute = async () => {
+  return fhirResponse({
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: new Date().toISOString().slice(0, 10),
+    kind: 'instance',
+    software: { name: 'PlainDoctor FHIR directory' },
+    implementation: { description: 'Read-only provider directory built from CMS NPPES', url: `https://plaindoctor.com${FHIR_BASE}` },
+    fhirVersion: '4.0.1',
+    format: ['json'],
+    rest: [{
+      mode: 'server',
+      resource: FHIR_RESOURCE_TYPES.map(type => ({
+        type,
+        interaction: [{ code: 'read' }, { code: 'search-type' }],
+        searchParam: SEARCH_PARAMS,
+        ...(type === 'PractitionerRole' && { searchInclude: ['PractitionerRole:practitioner', 'PractitionerRole:location'] }),
+      })),
+    }],
+  });
+};
@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { searchProvidersNearZip, getAllSpecialties, RADIUS_OPTIONS } from '../../lib/db';
+
+const CACHE_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'public, max-age=300, s-maxage=3600',
+};
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const url = new URL(request.url);
+  const zip = (url.searchParams.get('zip') || '').trim();
+  const radiusRaw = parseFloat(url.searchParams.get('radius') || '10') || 10;
+  const radius = RADIUS_OPTIONS.find(r => r >= radiusRaw) ?? RADIUS_OPTIONS[RADIUS_OPTIONS.length - 1];
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 100);
+  const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+  if (!/^\d{5}$/.test(zip)) {
+    return new Response(JSON.stringify({ error: 'zip must be a 5-digit ZIP code' }), {
+      status: 400,
+      headers: CACHE_HEADERS,
+    });
+  }
+
+  const db = (locals as any).runtime.env.DB;
+
+  let specialtyCode: string | null = null;
+  const specSlug = url.searchParams.get('specialty')?.trim().toLowerCase();
+  if (specSlug) {
+    const spec = (await getAllSpecialties(db)).find(s => s.slug === specSlug);
+    specialtyCode = spec ? spec.code : specSlug;
+  }
+
+  // Same ZIP-centroid radius search as /search?zip=...
+  const nearby = await searchProvidersNearZip(db, zip, radius, specialtyCode, limit, offset);
+  if (!nearby) {
+    return new Response(JSON.stringify({ error: `Unknown ZIP code ${zip}` }), {
+      status: 404,
+      headers: CACHE_HEADERS,
+    });
+  }
+
+  return new Response(JSON.stringify({
+    origin: nearby.origin,
+    radius,
+    specialty: specSlug || null,
+    total: nearby.total,
+    limit,
+    offset,
+    results: nearby.results,
+  }), {
+    headers: CACHE_HEADERS,
+  });
+};
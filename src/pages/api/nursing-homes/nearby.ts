@@ -0,0 +1,81 @@
+import type { APIRoute } from 'astro';
+import { getNursingHomesNear, getZipCentroid, RADIUS_OPTIONS } from '../../../lib/db';
+
+const CACHE_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'public, max-age=300, s-maxage=3600',
+};
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const url = new URL(request.url);
+  const zip = (url.searchParams.get('zip') || '').trim();
+  const lat = parseFloat(url.searchParams.get('lat') || '');
+  const lng = parseFloat(url.searchParams.get('lng') || '');
+  const radiusRaw = parseFloat(url.searchParams.get('radius') || '25') || 25;
+  const radius = RADIUS_OPTIONS.find(r => r >= radiusRaw) ?? RADIUS_OPTIONS[RADIUS_OPTIONS.length - 1];
+  const clampRating = (v: string | null) => Math.min(Math.max(parseInt(v || '0') || 0, 0), 5);
+  const minOverall = clampRating(url.searchParams.get('min_rating'));
+  const minStaffing = clampRating(url.searchParams.get('min_staffing'));
+  const minBeds = Math.max(parseInt(url.searchParams.get('min_beds') || '0') || 0, 0);
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 100);
+  const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+  const db = (locals as any).runtime.env.DB;
+
+  let origin: { zip?: string; lat: number; lng: number } | null = null;
+  if (zip) {
+    if (!/^\d{5}$/.test(zip)) {
+      return new Response(JSON.stringify({ error: 'zip must be a 5-digit ZIP code' }), {
+        status: 400,
+        headers: CACHE_HEADERS,
+      });
+    }
+    origin = await getZipCentroid(db, zip);
+    if (!origin) {
+      return new Response(JSON.stringify({ error: `Unknown ZIP code ${zip}` }), {
+        status: 404,
+        headers: CACHE_HEADERS,
+      });
+    }
+  } else if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    origin = { lat, lng };
+  } else {
+    return new Response(JSON.stringify({ error: 'Provide zip, or lat and lng' }), {
+      status: 400,
+      headers: CACHE_HEADERS,
+    });
+  }
+
+  const { total, results } = await getNursingHomesNear(
+    db, origin.lat, origin.lng, radius, { minOverall, minStaffing, minBeds }, limit, offset
+  );
+
+  return new Response(JSON.stringify({
+    origin,
+    radius,
+    filters: { min_rating: minOverall, min_staffing: minStaffing, min_beds: minBeds },
+    total,
+    limit,
+    offset,
+    results: results.map(h => ({
+      ccn: h.ccn,
+      name: h.name,
+      slug: h.slug,
+      address: h.address,
+      city: h.city,
+      state: h.state,
+      zip: h.zip,
+      phone: h.phone,
+      beds: h.beds,
+      overall_rating: h.overall_rating,
+      staffing_rating: h.staffing_rating,
+      health_rating: h.health_rating,
+      qm_rating: h.qm_rating,
+      lat: h.lat,
+      lng: h.lng,
+      distance: h.distance,
+    })),
+  }), {
+    headers: CACHE_HEADERS,
+  });
+};
@@ -1,4 +1,5 @@
 import type { APIRoute } from 'astro';
+import { searchProviders, searchOrganizations, getSearchFacets, getAllSpecialties, getExclusionsByNpis, normalizeCredential, type SearchFilters } from '../../lib/db';
 
 const CACHE_HEADERS = {
   'Content-Type': 'application/json',
@@ -9,7 +10,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
   const url = new URL(request.url);
   const query = url.searchParams.get('q') || '';
   const trimmed = query.trim();
-  const limit = Math.min(parseInt(url.searchParams.get('limit') || '15'), 15);
+  // Clamp to 1..15: a NaN or negative LIMIT would make SQLite return every match
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || 15, 1), 15);
 
   if (trimmed.length < 2) {
     return new Response(JSON.stringify({ results: [], query: '' }), {
@@ -19,28 +21,67 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
   const db = (locals as any).runtime.env.DB;
 
-  // Check if query is an NPI number (10 digits)
-  if (/^\d{10}$/.test(trimmed)) {
-    const result = await db.prepare(
-      'SELECT npi, first_name, last_name, credential, specialty, city, state, zip, phone, slug FROM providers WHERE npi = ?'
-    ).bind(trimmed).first();
-    return new Response(JSON.stringify({ results: result ? [result] : [], query: trimmed }), {
-      headers: CACHE_HEADERS,
-    });
+  // Same facet filters as /search (specialty by slug, the rest by value)
+  const filters: SearchFilters = {};
+  for (const key of ['state', 'city', 'gender', 'credential'] as const) {
+    const v = url.searchParams.get(key)?.trim();
+    if (v) filters[key] = key === 'credential' ? normalizeCredential(v) : v.toUpperCase();
+  }
+  const specSlug = url.searchParams.get('specialty')?.trim().toLowerCase();
+  if (specSlug) {
+    const spec = (await getAllSpecialties(db)).find(s => s.slug === specSlug);
+    filters.specialty_code = spec ? spec.code : specSlug;
   }
 
-  // Search last_name only using prefix match + index (idx_providers_last_name)
-  // OR with multiple columns forces a full 7M-row SCAN; single-column is 1000x cheaper
-  const prefix = trimmed + '%';
-  const { results } = await db.prepare(`
-    SELECT npi, first_name, last_name, credential, specialty, city, state, zip, phone, slug
-    FROM providers
-    WHERE last_name LIKE ?1
-    ORDER BY last_name COLLATE NOCASE, first_name COLLATE NOCASE
-    LIMIT ?2
-  `).bind(prefix, limit).all();
+  // Same FTS5 search as /search (NPI exact match, else name/specialty/city/ZIP)
+  // Organizations match on name/DBA/type/city/ZIP and only take the state filter
+  const orgSearch = !filters.specialty_code && !filters.city && !filters.gender && !filters.credential;
+  const [providers, facetData, orgs] = await Promise.all([
+    searchProviders(db, trimmed, limit, filters),
+    getSearchFacets(db, trimmed, filters),
+    orgSearch ? searchOrganizations(db, trimmed, 5, filters.state) : Promise.resolve([]),
+  ]);
+  // OIG LEIE exclusion flags for everything on this page of results
+  const exclusions = await getExclusionsByNpis(db, [...providers.map(p => p.npi), ...orgs.map(o => o.npi)]);
+  const exclusionFlag = (npi: string) => {
+    const e = exclusions.get(npi);
+    return e ? { excluded: true, exclusion_type: e.excl_type, exclusion_date: e.excl_date } : { excluded: false };
+  };
+  const results = providers.map(p => ({
+    npi: p.npi,
+    first_name: p.first_name,
+    last_name: p.last_name,
+    credential: p.credential,
+    specialty: p.specialty,
+    city: p.city,
+    state: p.state,
+    zip: p.zip,
+    phone: p.phone,
+    slug: p.slug,
+    ...exclusionFlag(p.npi),
+  }));
+  const organizations = orgs.map(o => ({
+    npi: o.npi,
+    name: o.name,
+    other_name: o.other_name,
+    taxonomy: o.taxonomy,
+    city: o.city,
+    state: o.state,
+    zip: o.zip,
+    phone: o.phone,
+    slug: o.slug,
+    ...exclusionFlag(o.npi),
+  }));
 
-  return new Response(JSON.stringify({ results, query: trimmed }), {
+  return new Response(JSON.stringify({
+    results,
+    organizations,
+    query: trimmed,
+    filters,
+    total: facetData.total,
+    partial: facetData.partial,
+    facets: facetData.facets,
+  }), {
     headers: CACHE_HEADERS,
   });
 };
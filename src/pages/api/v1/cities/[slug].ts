@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getCityBySlug, getCitySpecialties, getProvidersByCityAfter } from '../../../../lib/db';
+import { apiResponse, apiError, notFound, parseLimit, decodeCursor, pageLinks } from '../../../../lib/api';
+
+// GET /api/v1/cities/{slug}?limit=&cursor= — providers in a city, keyset-paginated by name
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const city = await getCityBySlug(db, (params.slug || '').toLowerCase());
+  if (!city) return notFound(`City ${params.slug}`);
+
+  const after = decodeCursor(url.searchParams.get('cursor'));
+  if (after === undefined) return apiError(400, 'invalid_cursor', 'cursor is not valid; use links.next from the previous page');
+  const limit = parseLimit(url);
+
+  const [providers, specialties] = await Promise.all([
+    getProvidersByCityAfter(db, city.city, city.state, after, limit),
+    after ? Promise.resolve(undefined) : getCitySpecialties(db, city.city, city.state),
+  ]);
+
+  return apiResponse(providers, {
+    city: { city: city.city, state: city.state, slug: city.slug, url: `https://plaindoctor.com/city/${city.slug}` },
+    ...(specialties && { specialties }),
+    total: city.provider_count,
+    limit,
+  }, pageLinks(url, providers, limit));
+};
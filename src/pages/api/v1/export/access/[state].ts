@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getCountyAccessByState, getStateName, parseAccessDiscipline } from '../../../../../lib/db';
+import { apiError, notFound, parseExportFormat, tableExport } from '../../../../../lib/api';
+
+const COLUMNS = [
+  'fips', 'name', 'population',
+  'primary_care', 'primary_care_per_100k', 'hpsa_primary_care', 'hpsa_score_primary_care',
+  'mental_health', 'mental_health_per_100k', 'hpsa_mental_health', 'hpsa_score_mental_health',
+  'dental', 'dental_per_100k', 'hpsa_dental', 'hpsa_score_dental',
+] as const;
+
+// GET /api/v1/export/access/{state}?format=csv|ndjson&discipline= — every county, fewest providers per 100K first
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const format = parseExportFormat(url);
+  if (!format) return apiError(400, 'invalid_format', 'format must be csv or ndjson');
+
+  const state = (params.state || '').toUpperCase();
+  if (state.length !== 2 || getStateName(state) === state) return notFound(`State ${params.state}`);
+
+  const discipline = parseAccessDiscipline(url.searchParams.get('discipline'));
+  const db = (locals as any).runtime.env.DB;
+  const counties = await getCountyAccessByState(db, state, discipline);
+  if (counties.length === 0) return notFound(`Access report for ${state}`);
+
+  return tableExport(format, `access-${state.toLowerCase()}-${discipline.replace('_', '-')}`, COLUMNS, counties);
+};
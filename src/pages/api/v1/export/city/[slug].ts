@@ -0,0 +1,16 @@
+import type { APIRoute } from 'astro';
+import { getCityBySlug, getProvidersByCityAfter } from '../../../../../lib/db';
+import { apiError, notFound, parseExportFormat, streamProviderExport } from '../../../../../lib/api';
+
+// GET /api/v1/export/city/{slug}?format=csv|ndjson — full listing, streamed
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const format = parseExportFormat(url);
+  if (!format) return apiError(400, 'invalid_format', 'format must be csv or ndjson');
+
+  const db = (locals as any).runtime.env.DB;
+  const city = await getCityBySlug(db, (params.slug || '').toLowerCase());
+  if (!city) return notFound(`City ${params.slug}`);
+
+  return streamProviderExport(format, city.slug,
+    (after, limit) => getProvidersByCityAfter(db, city.city, city.state, after, limit));
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { getSpecialtyBySlug, getProviderCountBySpecialtyAndState, getProvidersBySpecialtyAndStateAfter } from '../../../../../../lib/db';
+import { apiError, notFound, parseExportFormat, streamProviderExport } from '../../../../../../lib/api';
+
+// GET /api/v1/export/specialty/{slug}/{state}?format=csv|ndjson — full listing, streamed
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const format = parseExportFormat(url);
+  if (!format) return apiError(400, 'invalid_format', 'format must be csv or ndjson');
+
+  const db = (locals as any).runtime.env.DB;
+  const stateAbbr = (params.state || '').toUpperCase();
+  const specialty = await getSpecialtyBySlug(db, (params.slug || '').toLowerCase());
+  if (!specialty) return notFound(`Specialty ${params.slug}`);
+  if (await getProviderCountBySpecialtyAndState(db, specialty.code, stateAbbr) === 0) {
+    return notFound(`${specialty.name} in ${stateAbbr}`);
+  }
+
+  return streamProviderExport(format, `${specialty.slug}-${stateAbbr.toLowerCase()}`,
+    (after, limit) => getProvidersBySpecialtyAndStateAfter(db, specialty.code, stateAbbr, after, limit));
+};
@@ -0,0 +1,29 @@
+import type { APIRoute } from 'astro';
+import { apiResponse, API_BASE } from '../../../lib/api';
+
+// GET /api/v1 — self-describing index of the public API
+export const GET: APIRoute = async () => {
+  return apiResponse({
+    version: 'v1',
+    source: 'CMS NPPES, Medicare Part D Prescribers, CMS Nursing Home Provider Information',
+    conventions: {
+      envelope: '{ data, meta?, links? } on success; { error: { status, code, message } } on failure',
+      pagination: 'Listings are keyset-paginated: follow links.next (an opaque cursor) until it is null. limit defaults to 100, max 500.',
+      caching: 'Responses are public and cacheable for 1 hour (24 hours at shared caches); errors for 60 seconds.',
+    },
+    endpoints: [
+      { path: `${API_BASE}/providers/{npi|slug}`, description: 'Provider detail with all NPPES taxonomies, Medicare Part D prescriber summary (null when not a Part D prescriber) and NPPES change history' },
+      { path: `${API_BASE}/specialties`, description: 'All specialties with provider counts' },
+      { path: `${API_BASE}/specialties/{slug}`, description: 'Specialty detail with per-state counts, top cities and prescribing averages' },
+      { path: `${API_BASE}/specialties/{slug}/{state}?limit=&cursor=`, description: 'Providers of a specialty in a state, sorted by name' },
+      { path: `${API_BASE}/states`, description: 'All states with provider and specialty counts' },
+      { path: `${API_BASE}/states/{abbr}`, description: 'State detail with largest cities and prescribing stats' },
+      { path: `${API_BASE}/cities/{slug}?limit=&cursor=`, description: 'Providers in a city, sorted by name, with top specialties on the first page' },
+      { path: `${API_BASE}/export/specialty/{slug}/{state}?format=csv|ndjson`, description: 'Full specialty-in-state listing as a streamed CSV or NDJSON download' },
+      { path: `${API_BASE}/export/city/{slug}?format=csv|ndjson`, description: 'Full city listing as a streamed CSV or NDJSON download' },
+      { path: `${API_BASE}/export/access/{state}?format=csv|ndjson&discipline=primary_care|mental_health|dental`, description: 'County provider access report: providers per 100K and HPSA designations, ranked by shortage' },
+      { path: `POST ${API_BASE}/npi-lookup[?format=csv]`, description: 'Bulk NPI verification (up to 5,000): JSON { npis: [...] } or CSV upload in, one row per NPI out' },
+      { path: `${API_BASE}/nursing-homes/{ccn}`, description: 'Nursing home summary: ratings, staffing, inspection deficiency counts and fine and penalty totals' },
+    ],
+  });
+};
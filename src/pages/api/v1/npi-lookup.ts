@@ -0,0 +1,171 @@
+import type { APIRoute } from 'astro';
+import { getProvidersByNpis } from '../../../lib/db';
+import { apiResponse, apiError, csvRow } from '../../../lib/api';
+
+// POST /api/v1/npi-lookup[?format=csv]
+// Body: JSON ({ "npis": [...] } or a bare array), a CSV upload (text/csv, or
+// multipart/form-data with a "file" field), or plain text with one NPI per line;
+// a form-encoded body is read as an "npis" field when it has one, else as CSV.
+// CSV input uses the column headed "npi" when there is one, else the first column.
+
+const MAX_NPIS = 5000;
+
+const CSV_COLUMNS = [
+  'npi', 'status', 'found', 'first_name', 'last_name', 'credential', 'specialty', 'specialty_code',
+  'address_line1', 'city', 'state', 'zip', 'enumeration_date', 'has_part_d',
+] as const;
+
+// NPI check digit: Luhn over the 9-digit base prefixed with 80840 (constant 24)
+function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false;
+  let sum = 24;
+  for (let i = 8; i >= 0; i--) {
+    let d = Number(npi[i]);
+    if ((8 - i) % 2 === 0) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return (10 - (sum % 10)) % 10 === Number(npi[9]);
+}
+
+// RFC 4180 rows, same quoting rules as the import scripts' parseCSVLine: "" is an
+// escaped quote, and commas or line breaks inside quotes stay in the field
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      if (inQuotes && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === ',' && !inQuotes) {
+      row.push(current);
+      current = '';
+    } else if ((ch === '\n' || ch === '\r') && !inQuotes) {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(current);
+      rows.push(row);
+      row = [];
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current || row.length > 0) {
+    row.push(current);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseCsvNpis(text: string): string[] {
+  const rows = parseCsv(text).map(r => r.map(c => c.trim()));
+  let col = 0;
+  const headerIdx = rows[0]?.findIndex(c => c.toLowerCase() === 'npi') ?? -1;
+  if (headerIdx >= 0) {
+    col = headerIdx;
+    rows.shift();
+  } else if (rows[0] && !/^\d+$/.test(rows[0][0] ?? '')) {
+    rows.shift(); // unlabeled header row
+  }
+  return rows.map(r => r[col] ?? '').filter(Boolean);
+}
+
+async function readNpis(request: Request): Promise<string[] | null> {
+  const type = (request.headers.get('content-type') || '').toLowerCase();
+  if (type.includes('application/json')) {
+    const body: unknown = await request.json().catch(() => null);
+    const list = Array.isArray(body) ? body
+      : body && typeof body === 'object' && 'npis' in body ? body.npis
+      : null;
+    return Array.isArray(list) ? list.map(v => String(v).trim()) : null;
+  }
+  if (type.includes('multipart/form-data')) {
+    const form = await request.formData().catch(() => null);
+    if (!form) return null;
+    const file = form.get('file');
+    if (file && typeof file !== 'string') return parseCsvNpis(await file.text());
+    const field = form.get('npis');
+    return typeof field === 'string' ? parseCsvNpis(field) : null;
+  }
+  if (type.includes('application/x-www-form-urlencoded')) {
+    // An npis= form field, or a raw file (curl --data-binary @npis.csv sends this type)
+    const text = await request.text();
+    return parseCsvNpis(new URLSearchParams(text).get('npis') ?? text);
+  }
+  if (type.includes('text/csv') || type.includes('text/plain') || !type) {
+    return parseCsvNpis(await request.text());
+  }
+  return null;
+}
+
+export const POST: APIRoute = async ({ request, url, locals }) => {
+  const raw = await readNpis(request);
+  if (!raw) {
+    return apiError(400, 'invalid_body', 'Send JSON { "npis": [...] }, a CSV file, or one NPI per line');
+  }
+  // One row per distinct NPI, in the order submitted
+  const npis = [...new Set(raw.filter(Boolean))];
+  if (npis.length === 0) return apiError(400, 'no_npis', 'No NPIs found in the request body');
+  if (npis.length > MAX_NPIS) {
+    return apiError(413, 'too_many_npis', `At most ${MAX_NPIS.toLocaleString()} NPIs per request (got ${npis.length.toLocaleString()})`);
+  }
+
+  const db = (locals as any).runtime.env.DB;
+  const providers = await getProvidersByNpis(db, npis.filter(n => /^\d{10}$/.test(n)));
+
+  const rows = npis.map(npi => {
+    const p = providers.get(npi);
+    return {
+      npi,
+      status: p ? 'found' : isValidNpi(npi) ? 'not_found' : 'invalid',
+      found: Boolean(p),
+      first_name: p?.first_name ?? null,
+      last_name: p?.last_name ?? null,
+      credential: p?.credential ?? null,
+      specialty: p?.specialty ?? null,
+      specialty_code: p?.specialty_code ?? null,
+      address_line1: p?.address_line1 ?? null,
+      city: p?.city ?? null,
+      state: p?.state ?? null,
+      zip: p?.zip ?? null,
+      enumeration_date: p?.enumeration_date ?? null,
+      has_part_d: p ? p.has_part_d === 1 : null,
+    };
+  });
+  const found = rows.filter(r => r.found).length;
+
+  const wantsCsv = url.searchParams.get('format') === 'csv'
+    || (!url.searchParams.has('format') && (request.headers.get('accept') || '').includes('text/csv'));
+  if (wantsCsv) {
+    const csv = csvRow([...CSV_COLUMNS]) + rows.map(r => csvRow(CSV_COLUMNS.map(c => r[c]))).join('');
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="npi-lookup.csv"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  // Lookups are per-request POSTs: never cache the result
+  const response = apiResponse(rows, {
+    requested: npis.length,
+    found,
+    not_found: rows.length - found,
+  });
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+};
+
+export const GET: APIRoute = async () => {
+  return apiError(405, 'method_not_allowed', 'POST a JSON body { "npis": [...] } or a CSV file; add ?format=csv for CSV output');
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { getNursingHomeByCcn } from '../../../../lib/db';
+import { apiResponse, apiError, notFound } from '../../../../lib/api';
+
+// GET /api/v1/nursing-homes/{ccn} — CMS Care Compare record for one facility
+export const GET: APIRoute = async ({ params, locals }) => {
+  const ccn = (params.ccn || '').trim().toUpperCase();
+  if (!/^[0-9A-Z]{6}$/.test(ccn)) return apiError(400, 'invalid_ccn', 'ccn must be a 6-character CMS Certification Number');
+
+  const db = (locals as any).runtime.env.DB;
+  const home = await getNursingHomeByCcn(db, ccn);
+  if (!home) return notFound(`Nursing home ${ccn}`);
+
+  return apiResponse({
+    ...home,
+    abuse_icon: home.abuse_icon === 1,
+    special_focus: home.special_focus === 1,
+    url: `https://plaindoctor.com/nursing-home/${home.slug}`,
+  });
+};
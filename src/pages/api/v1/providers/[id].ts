@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { getProviderByNpi, getProviderBySlug, getPrescriberSummary, getProviderHistory, getProviderTaxonomies } from '../../../../lib/db';
+import { apiResponse, notFound } from '../../../../lib/api';
+
+// GET /api/v1/providers/{npi|slug}
+export const GET: APIRoute = async ({ params, locals }) => {
+  const id = (params.id || '').trim();
+  const db = (locals as any).runtime.env.DB;
+
+  const provider = /^\d{10}$/.test(id)
+    ? await getProviderByNpi(db, id)
+    : await getProviderBySlug(db, id.toLowerCase());
+  if (!provider) return notFound(`Provider ${id}`);
+
+  const [prescriber, taxonomies, history] = await Promise.all([
+    getPrescriberSummary(db, provider.npi),
+    getProviderTaxonomies(db, provider.npi),
+    getProviderHistory(db, provider.npi),
+  ]);
+
+  return apiResponse({
+    ...provider,
+    url: `https://plaindoctor.com/provider/${provider.slug}`,
+    taxonomies: taxonomies.map(t => ({ ...t, is_primary: t.is_primary === 1 })),
+    prescriber,
+    history,
+  });
+};
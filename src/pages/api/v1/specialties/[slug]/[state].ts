@@ -0,0 +1,27 @@
+import type { APIRoute } from 'astro';
+import { getSpecialtyBySlug, getProviderCountBySpecialtyAndState, getProvidersBySpecialtyAndStateAfter, getStateName } from '../../../../../lib/db';
+import { apiResponse, apiError, notFound, parseLimit, decodeCursor, pageLinks } from '../../../../../lib/api';
+
+// GET /api/v1/specialties/{slug}/{state}?limit=&cursor= — providers, keyset-paginated by name
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const stateAbbr = (params.state || '').toUpperCase();
+  const specialty = await getSpecialtyBySlug(db, (params.slug || '').toLowerCase());
+  if (!specialty) return notFound(`Specialty ${params.slug}`);
+
+  const total = await getProviderCountBySpecialtyAndState(db, specialty.code, stateAbbr);
+  if (total === 0) return notFound(`${specialty.name} in ${stateAbbr}`);
+
+  const after = decodeCursor(url.searchParams.get('cursor'));
+  if (after === undefined) return apiError(400, 'invalid_cursor', 'cursor is not valid; use links.next from the previous page');
+  const limit = parseLimit(url);
+
+  const providers = await getProvidersBySpecialtyAndStateAfter(db, specialty.code, stateAbbr, after, limit);
+
+  return apiResponse(providers, {
+    specialty: { code: specialty.code, name: specialty.name, slug: specialty.slug },
+    state: { abbr: stateAbbr, name: getStateName(stateAbbr) },
+    total,
+    limit,
+  }, pageLinks(url, providers, limit));
+};
@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { getSpecialtyBySlug, getSpecialtyStates, getSpecialtyStats, getTopCitiesBySpecialty } from '../../../../../lib/db';
+import { apiResponse, notFound, API_BASE } from '../../../../../lib/api';
+
+// GET /api/v1/specialties/{slug} — specialty with per-state counts and top cities
+export const GET: APIRoute = async ({ params, locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const specialty = await getSpecialtyBySlug(db, (params.slug || '').toLowerCase());
+  if (!specialty) return notFound(`Specialty ${params.slug}`);
+
+  const [states, stats, topCities] = await Promise.all([
+    getSpecialtyStates(db, specialty.code),
+    getSpecialtyStats(db, specialty.code),
+    getTopCitiesBySpecialty(db, specialty.code),
+  ]);
+
+  return apiResponse({
+    ...specialty,
+    url: `https://plaindoctor.com/specialty/${specialty.slug}`,
+    prescribing: stats,
+    states: states.map(s => ({
+      state: s.state,
+      provider_count: s.provider_count,
+      providers: `${API_BASE}/specialties/${specialty.slug}/${s.state.toLowerCase()}`,
+    })),
+    top_cities: topCities,
+  });
+};
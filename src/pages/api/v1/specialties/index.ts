@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getAllSpecialties } from '../../../../lib/db';
+import { apiResponse } from '../../../../lib/api';
+
+// GET /api/v1/specialties — all specialties, largest first
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const specialties = await getAllSpecialties(db);
+  return apiResponse(specialties, { total: specialties.length });
+};
@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { getAllStates, getCitiesByState, getPrescriberStatsByState } from '../../../../lib/db';
+import { apiResponse, notFound, API_BASE } from '../../../../lib/api';
+
+// GET /api/v1/states/{abbr|slug} — state summary with its largest cities
+export const GET: APIRoute = async ({ params, locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const key = (params.state || '').toLowerCase();
+  const state = (await getAllStates(db)).find(s => s.abbr.toLowerCase() === key || s.slug === key);
+  if (!state) return notFound(`State ${params.state}`);
+
+  const [cities, prescribing] = await Promise.all([
+    getCitiesByState(db, state.abbr),
+    getPrescriberStatsByState(db, state.abbr),
+  ]);
+
+  return apiResponse({
+    ...state,
+    url: `https://plaindoctor.com/state/${state.slug}`,
+    prescribing,
+    cities: cities.map(c => ({
+      city: c.city,
+      slug: c.slug,
+      provider_count: c.provider_count,
+      providers: `${API_BASE}/cities/${c.slug}`,
+    })),
+  });
+};
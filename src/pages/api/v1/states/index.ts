@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getAllStates } from '../../../../lib/db';
+import { apiResponse } from '../../../../lib/api';
+
+// GET /api/v1/states — all states with provider and specialty counts
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const states = await getAllStates(db);
+  return apiResponse(states, { total: states.length });
+};
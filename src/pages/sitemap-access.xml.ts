@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { getSitemapAccessStates } from '../lib/db';
+
+const BASE = 'https://plaindoctor.com';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const states = await getSitemapAccessStates(db);
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...states.map(s => `  <url><loc>${BASE}/access/${s.toLowerCase()}</loc><changefreq>monthly</changefreq></url>`),
+    '</urlset>',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};
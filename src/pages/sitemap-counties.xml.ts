@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { getSitemapCounties } from '../lib/db';
+
+const BASE = 'https://plaindoctor.com';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const counties = await getSitemapCounties(db);
+  const states = [...new Set(counties.map(c => c.state.toLowerCase()))];
+
+  const urls = [
+    ...states.map(s => `${BASE}/county/${s}`),
+    ...counties.map(c => `${BASE}/county/${c.state.toLowerCase()}/${c.slug}`),
+  ];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${url}</loc><changefreq>monthly</changefreq></url>`),
+    '</urlset>',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};
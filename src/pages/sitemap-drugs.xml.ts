@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { getSitemapDrugSlugs } from '../lib/db';
+
+const BASE = 'https://plaindoctor.com';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const slugs = await getSitemapDrugSlugs(db);
+
+  const urls = [
+    `${BASE}/drugs`,
+    ...slugs.map(s => `${BASE}/drug/${s}`),
+  ];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${url}</loc><changefreq>monthly</changefreq></url>`),
+    '</urlset>',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};
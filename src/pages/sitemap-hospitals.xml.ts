@@ -0,0 +1,31 @@
+import type { APIRoute } from 'astro';
+import { getAllHospitalStates, getSitemapHospitalSlugs } from '../lib/db';
+
+const BASE = 'https://plaindoctor.com';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const [states, slugs] = await Promise.all([
+    getAllHospitalStates(db),
+    getSitemapHospitalSlugs(db),
+  ]);
+
+  const urls = [
+    `${BASE}/hospitals`,
+    `${BASE}/hospitals/rankings`,
+    ...states.flatMap(s => [
+      `${BASE}/hospitals/${s.state.toLowerCase()}`,
+      `${BASE}/hospitals/${s.state.toLowerCase()}/rankings`,
+    ]),
+    ...slugs.map(s => `${BASE}/hospital/${s}`),
+  ];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${url}</loc><changefreq>monthly</changefreq></url>`),
+    '</urlset>',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};
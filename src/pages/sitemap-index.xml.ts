@@ -1,5 +1,5 @@
 import type { APIRoute } from 'astro';
-import { getSitemapPageCount } from '../lib/db';
+import { getSitemapPageCount, getOrganizationSitemapPageCount } from '../lib/db';
 
 const BASE = 'https://plaindoctor.com';
 
@@ -8,6 +8,7 @@ export const GET: APIRoute = async ({ locals }) => {
 
   // Get page count from pre-computed sitemap_pages table
   const providerPages = await getSitemapPageCount(db);
+  const organizationPages = await getOrganizationSitemapPageCount(db);
 
   const sitemaps = [
     `${BASE}/sitemap-providers-priority.xml`,
@@ -17,13 +18,24 @@ export const GET: APIRoute = async ({ locals }) => {
     `${BASE}/sitemap-specialty-states.xml`,
     `${BASE}/sitemap-compare.xml`,
     `${BASE}/sitemap-cities.xml`,
+    `${BASE}/sitemap-counties.xml`,
+    `${BASE}/sitemap-access.xml`,
+    `${BASE}/sitemap-zips.xml`,
     `${BASE}/sitemap-nursing-staffing.xml`,
     `${BASE}/sitemap-nursing-deficiencies.xml`,
+    `${BASE}/sitemap-nursing-compare.xml`,
+    `${BASE}/sitemap-hospitals.xml`,
+    `${BASE}/sitemap-organization-listings.xml`,
+    `${BASE}/sitemap-drugs.xml`,
+    `${BASE}/sitemap-payments.xml`,
   ];
 
   for (let i = 1; i <= providerPages; i++) {
     sitemaps.push(`${BASE}/sitemap-providers-${i}.xml`);
   }
+  for (let i = 1; i <= organizationPages; i++) {
+    sitemaps.push(`${BASE}/sitemap-organizations-${i}.xml`);
+  }
 
   const xml = [
     '<?xml version="1.0" encoding="UTF-8"?>',
@@ -1,4 +1,5 @@
 import type { APIRoute } from 'astro';
+import { getSitemapDeficiencyTagStates } from '../lib/db';
 
 const BASE = 'https://plaindoctor.com';
 
@@ -10,10 +11,16 @@ const STATES = [
   'wv','wi','wy',
 ];
 
-export const GET: APIRoute = async () => {
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const tagStates = await getSitemapDeficiencyTagStates(db);
+  const tags = [...new Set(tagStates.map(t => t.ftag.toLowerCase()))];
+
   const urls = [
     `${BASE}/nursing-homes/deficiency-rankings`,
     ...STATES.map(s => `${BASE}/nursing-homes/${s}/deficiencies`),
+    ...tags.map(t => `${BASE}/nursing-homes/deficiencies/${t}`),
+    ...tagStates.map(t => `${BASE}/nursing-homes/${t.state.toLowerCase()}/deficiencies/${t.ftag.toLowerCase()}`),
   ];
 
   const xml = [
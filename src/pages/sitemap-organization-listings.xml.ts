@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { getAllOrganizationStates, getOrganizationTypes, getSitemapOrganizationListings } from '../lib/db';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const base = 'https://plaindoctor.com';
+  const db = (locals as any).runtime.env.DB;
+
+  // City and type×state listings under 5 organizations are left out
+  const [states, types, { cities, typeStates }] = await Promise.all([
+    getAllOrganizationStates(db),
+    getOrganizationTypes(db),
+    getSitemapOrganizationListings(db),
+  ]);
+
+  const paths = [
+    '/organizations',
+    ...states.map(s => `/organizations/${s.state.toLowerCase()}`),
+    ...types.map(t => `/organizations/type/${t.slug}`),
+    ...typeStates.map(r => `/organizations/type/${r.slug}/${r.state.toLowerCase()}`),
+    ...cities.map(r => `/organizations/${r.state.toLowerCase()}/${r.slug}`),
+  ];
+  const urls = paths.map(p => `  <url><loc>${base}${p}</loc><changefreq>monthly</changefreq><priority>0.5</priority></url>`).join('\n');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>`;
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { getPaymentYears, getPaymentSpecialtyStats } from '../lib/db';
+
+const BASE = 'https://plaindoctor.com';
+
+export const GET: APIRoute = async ({ locals }) => {
+  const db = (locals as any).runtime.env.DB;
+  const [year] = await getPaymentYears(db);
+  const specialties = year ? await getPaymentSpecialtyStats(db, year) : [];
+
+  const urls = [
+    `${BASE}/payments`,
+    ...specialties.map(s => `${BASE}/payments/${s.slug}`),
+  ];
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${url}</loc><changefreq>monthly</changefreq></url>`),
+    '</urlset>',
+  ].join('\n');
+
+  return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+};